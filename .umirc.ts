@@ -100,6 +100,11 @@ export default defineConfig({
           path: '/service-worker',
           component: './ServiceWorker',
         },
+        {
+          name: 'XSelect Benchmark',
+          path: '/x-select-benchmark',
+          component: './XSelectBenchmark',
+        },
       ],
     },
   ],
@@ -110,15 +110,16 @@ export function useHydration<T extends BaseItem>({
 
   const { data, isLoading, error } = useQuery({
     queryKey: [config.queryKey, 'hydrate', idsToHydrate],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (config.fetchByIds) {
-        return config.fetchByIds(idsToHydrate);
+        return config.fetchByIds(idsToHydrate, undefined, signal);
       }
       // Fallback: use fetchList with ids filter
       const response = await config.fetchList({
         current: 1,
         pageSize: idsToHydrate.length,
         ids: idsToHydrate,
+        signal,
       });
       return response.data;
     },
@@ -161,10 +162,11 @@ export function useList<T extends BaseItem>({
 
   const query = useInfiniteQuery({
     queryKey: [config.queryKey, 'list'],
-    queryFn: async ({ pageParam = 1 }): Promise<PaginatedResponse<T>> => {
+    queryFn: async ({ pageParam = 1, signal }): Promise<PaginatedResponse<T>> => {
       const response = await config.fetchList({
         current: pageParam as number,
         pageSize,
+        signal,
       });
 
       const hasMore = response.hasMore ?? response.data.length >= pageSize;
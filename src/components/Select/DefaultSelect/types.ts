@@ -22,6 +22,8 @@ export interface FetchRequest {
   pageSize: number;
   ids?: Array<string | number>;
   search?: string;
+  /** Aborted when React Query cancels the request */
+  signal?: AbortSignal;
 }
 
 export interface FetchResponse<T> {
@@ -48,8 +50,15 @@ export interface SelectWrapperConfig<T extends BaseItem> {
   /** Function to fetch list of items */
   fetchList: (request: FetchRequest) => Promise<FetchResponse<T>>;
 
-  /** Function to fetch items by IDs (for hydration) */
-  fetchByIds?: (ids: Array<string | number>) => Promise<T[]>;
+  /**
+   * Function to fetch items by IDs (for hydration).
+   * Same signature as XSelect's `fetchByIds` - no parent value is passed here.
+   */
+  fetchByIds?: (
+    ids: Array<string | number>,
+    parentValue?: unknown,
+    signal?: AbortSignal,
+  ) => Promise<T[]>;
 
   /** Number of items per page */
   pageSize?: number;
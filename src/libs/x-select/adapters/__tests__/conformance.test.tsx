@@ -0,0 +1,381 @@
+/**
+ * Form adapter conformance - the same cascade scenarios against each adapter,
+ * driven through the real form library:
+ * - Store → form: cascade clear, touched / errors, field array rows
+ * - Form → store: external `setFieldsValue` / `setValue` / `setValues`
+ */
+
+import { act, render, renderHook } from '@testing-library/react';
+import type { FormInstance } from 'antd';
+import { Form } from 'antd';
+import { getIn, useFormik } from 'formik';
+import { StrictMode } from 'react';
+import { useForm } from 'react-hook-form';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { XSelectProvider, useXSelectStore } from '../../contexts';
+import { XSelectStore } from '../../store';
+import type { FieldConfig, FieldValues, FormAdapter } from '../../types';
+import { toFieldArrayName, toFormListPath } from '../../utils';
+import { createAntdAdapter } from '../antd';
+import { createFormikAdapter } from '../formik';
+import { createRHFAdapter } from '../reactHookForm';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const configs: FieldConfig[] = [
+  {
+    name: 'country',
+    options: [
+      { label: 'Vietnam', value: 'vn' },
+      { label: 'France', value: 'fr' },
+    ],
+    validation: { required: 'Pick a country' },
+  },
+  {
+    name: 'city',
+    dependsOn: 'country',
+    options: [
+      { label: 'Hanoi', value: 'hn', parentValue: 'vn' },
+      { label: 'Paris', value: 'pa', parentValue: 'fr' },
+    ],
+  },
+  {
+    name: 'items[].project',
+    options: [
+      { label: 'Alpha', value: 1 },
+      { label: 'Beta', value: 2 },
+    ],
+  },
+  {
+    name: 'items[].task',
+    dependsOn: 'items[].project',
+    options: [
+      { label: 'Alpha task', value: 10, parentValue: 1 },
+      { label: 'Beta task', value: 20, parentValue: 2 },
+    ],
+  },
+];
+
+const initialValues: FieldValues = { country: 'vn', city: 'hn' };
+
+// ============================================================================
+// HARNESSES
+// ============================================================================
+
+/**
+ * A form library instance behind an adapter, read back through its own API.
+ */
+interface FormHarness {
+  /** Current adapter - Formik needs a new one per render */
+  adapter: () => FormAdapter;
+
+  /** Form value of a store field name */
+  read: (fieldName: string) => unknown;
+
+  /** Change values through the form, bypassing the store */
+  setExternal: (values: FieldValues) => void;
+
+  touched: (fieldName: string) => boolean;
+
+  /** Error messages of a field (joined by the adapter where the form has one slot) */
+  errors: (fieldName: string) => string;
+}
+
+function NoopControl() {
+  return null;
+}
+
+function createAntdHarness(): FormHarness {
+  let form!: FormInstance;
+
+  function Host() {
+    [form] = Form.useForm();
+    return (
+      <Form form={form} initialValues={initialValues} component={false}>
+        <Form.Item name="country" noStyle>
+          <NoopControl />
+        </Form.Item>
+        <Form.Item name="city" noStyle>
+          <NoopControl />
+        </Form.Item>
+      </Form>
+    );
+  }
+
+  render(<Host />);
+  const adapter = createAntdAdapter(form);
+
+  return {
+    adapter: () => adapter,
+    read: (name) => form.getFieldValue(toFormListPath(name)),
+    setExternal: (values) => form.setFieldsValue(values),
+    touched: (name) => form.isFieldTouched(toFormListPath(name)),
+    errors: (name) => form.getFieldError(toFormListPath(name)).join(', '),
+  };
+}
+
+function createRHFHarness(): FormHarness {
+  const { result } = renderHook(() =>
+    useForm<FieldValues>({ defaultValues: initialValues }),
+  );
+  const form = result.current;
+  const adapter = createRHFAdapter(form);
+
+  return {
+    adapter: () => adapter,
+    read: (name) => form.getValues(toFieldArrayName(name)),
+    setExternal: (values) => {
+      for (const [name, value] of Object.entries(values))
+        form.setValue(name, value);
+    },
+    touched: (name) => form.getFieldState(toFieldArrayName(name)).isTouched,
+    errors: (name) =>
+      form.getFieldState(toFieldArrayName(name)).error?.message ?? '',
+  };
+}
+
+function createFormikHarness(): FormHarness {
+  const { result } = renderHook(() =>
+    useFormik<FieldValues>({ initialValues, onSubmit: () => undefined }),
+  );
+
+  return {
+    adapter: () => createFormikAdapter(result.current),
+    read: (name) => getIn(result.current.values, name),
+    setExternal: (values) => {
+      result.current.setValues((current) => ({ ...current, ...values }));
+    },
+    touched: (name) => !!getIn(result.current.touched, name),
+    errors: (name) => getIn(result.current.errors, name) ?? '',
+  };
+}
+
+const harnesses: Array<[string, () => FormHarness]> = [
+  ['antd', createAntdHarness],
+  ['react-hook-form', createRHFHarness],
+  ['formik', createFormikHarness],
+];
+
+// ============================================================================
+// SCENARIOS
+// ============================================================================
+
+describe.each(harnesses)('%s adapter', (_, createHarness) => {
+  let store: XSelectStore;
+  let harness: FormHarness;
+
+  const tick = () =>
+    new Promise((resolve) => {
+      setTimeout(resolve, 0);
+    });
+
+  /** Let form updates and re-renders land, reconnect like the Provider, settle again */
+  const flush = async () => {
+    await act(async () => {
+      await tick();
+      store.setAdapter(harness.adapter());
+      await tick();
+    });
+  };
+
+  const connect = async () => {
+    harness = createHarness();
+    store = new XSelectStore(configs, initialValues);
+    store.setAdapter(harness.adapter());
+    await flush();
+  };
+
+  afterEach(() => {
+    store.destroy();
+  });
+
+  it('keeps form values on connect', async () => {
+    await connect();
+
+    expect(harness.read('country')).toBe('vn');
+    expect(harness.read('city')).toBe('hn');
+    expect(store.getValues()).toMatchObject({ country: 'vn', city: 'hn' });
+  });
+
+  it('syncs a cascade clear to the form', async () => {
+    await connect();
+
+    act(() => store.setValue('country', 'fr'));
+    await flush();
+
+    expect(harness.read('country')).toBe('fr');
+    expect(harness.read('city')).toBeUndefined();
+  });
+
+  it('applies external form changes to the store and cascades them', async () => {
+    await connect();
+
+    act(() => harness.setExternal({ country: 'fr' }));
+    await flush();
+
+    expect(store.getValues()).toMatchObject({ country: 'fr', city: undefined });
+    expect(harness.read('city')).toBeUndefined();
+  });
+
+  it('keeps external children that are valid for the new parent', async () => {
+    await connect();
+
+    act(() => harness.setExternal({ country: 'fr', city: 'pa' }));
+    await flush();
+
+    expect(store.getValues()).toMatchObject({ country: 'fr', city: 'pa' });
+    expect(harness.read('city')).toBe('pa');
+  });
+
+  it('syncs touched state and validation errors', async () => {
+    await connect();
+
+    act(() => store.setValue('country', undefined));
+    await act(async () => {
+      await store.validate();
+    });
+    await flush();
+
+    expect(harness.touched('country')).toBe(true);
+    expect(harness.errors('country')).toBe('Pick a country');
+
+    act(() => store.setValue('country', 'vn'));
+    await flush();
+
+    expect(harness.errors('country')).toBe('');
+  });
+
+  it('syncs field array rows', async () => {
+    await connect();
+
+    act(() => {
+      store.addRow('items', { project: 1, task: 10 });
+      store.addRow('items', { project: 2, task: 20 });
+    });
+    await flush();
+
+    expect(harness.read('items[0].project')).toBe(1);
+    expect(harness.read('items[1].task')).toBe(20);
+
+    act(() => store.moveRow('items', 1, 0));
+    await flush();
+
+    expect(harness.read('items[0].project')).toBe(2);
+    expect(harness.read('items[0].task')).toBe(20);
+    expect(harness.read('items[1].project')).toBe(1);
+
+    act(() => store.removeRow('items', 0));
+    await flush();
+
+    expect(harness.read('items[0].project')).toBe(1);
+    expect(harness.read('items[0].task')).toBe(10);
+    expect(harness.read('items[1].project')).toBeUndefined();
+
+    act(() => store.setValue('items[0].project', 2));
+    await flush();
+
+    expect(harness.read('items[0].task')).toBeUndefined();
+  });
+});
+
+describe('XSelectProvider adapter connection', () => {
+  /** RHF adapter that counts live form subscriptions */
+  const createTrackedAdapter = () => {
+    const { result } = renderHook(() =>
+      useForm<FieldValues>({ defaultValues: initialValues }),
+    );
+    const inner = createRHFAdapter(result.current);
+    let activeSubscriptions = 0;
+
+    const adapter: FormAdapter = {
+      ...inner,
+      subscribe: (listener) => {
+        activeSubscriptions += 1;
+        const unsubscribe = inner.subscribe!(listener);
+        return () => {
+          activeSubscriptions -= 1;
+          unsubscribe();
+        };
+      },
+    };
+
+    return {
+      adapter,
+      form: result.current,
+      activeSubscriptions: () => activeSubscriptions,
+    };
+  };
+
+  it('connects the adapter once mounted and releases it on unmount', async () => {
+    const tracked = createTrackedAdapter();
+    let store!: XSelectStore;
+
+    function StoreProbe() {
+      store = useXSelectStore();
+      return null;
+    }
+
+    const { unmount } = render(
+      <XSelectProvider
+        configs={configs}
+        adapter={tracked.adapter}
+        initialValues={initialValues}
+      >
+        <StoreProbe />
+      </XSelectProvider>,
+    );
+
+    expect(tracked.activeSubscriptions()).toBe(1);
+
+    act(() => store.setValue('country', 'fr'));
+    expect(tracked.form.getValues('city')).toBeUndefined();
+
+    act(() => tracked.form.setValue('country', 'vn'));
+    expect(store.getValues()).toMatchObject({ country: 'vn' });
+
+    unmount();
+    expect(tracked.activeSubscriptions()).toBe(0);
+  });
+
+  it('leaves no form subscription behind from a discarded render', () => {
+    const tracked = createTrackedAdapter();
+
+    // StrictMode renders twice and discards the first store
+    const { unmount } = render(
+      <StrictMode>
+        <XSelectProvider
+          configs={configs}
+          adapter={tracked.adapter}
+          initialValues={initialValues}
+        >
+          {null}
+        </XSelectProvider>
+      </StrictMode>,
+    );
+    unmount();
+
+    expect(tracked.activeSubscriptions()).toBe(0);
+  });
+});
+
+describe('antd adapter internals', () => {
+  it('finds the form watch hook used for form → store sync', () => {
+    const { result } = renderHook(() => Form.useForm()[0]);
+    const hooks = (
+      result.current as unknown as {
+        getInternalHooks?: (mark: string) => { registerWatch?: unknown } | null;
+      }
+    ).getInternalHooks?.('RC_FORM_INTERNAL_HOOKS');
+
+    expect(typeof hooks?.registerWatch).toBe('function');
+  });
+
+  it('throws on connect when the form watch hook is missing', () => {
+    const adapter = createAntdAdapter({} as FormInstance);
+
+    expect(() => adapter.subscribe!(() => undefined)).toThrow(/antd >= 4.20/);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * XSelect - antd Form Adapter
+ *
+ * - Store → form: values (batched via `setFields`), touched and errors
+ * - Form → store: external `setFieldsValue` / `resetFields` (form watch)
+ *
+ * NOTE: Form → store sync uses the internal watch hook behind `Form.useWatch`
+ * (antd >= 4.20). Without it the adapter throws on connect rather than
+ * silently dropping form changes.
+ * - Row fields map to `Form.List` paths (`items[0].project` → ['items', 0, 'project'])
+ */
+
+import type { FormInstance } from 'antd';
+
+import type { FormAdapter } from '../types';
+import { applyRowChange, toFormListPath } from '../utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AntdAdapterOptions {
+  /** Mark fields touched in the form (default: true) */
+  syncTouched?: boolean;
+
+  /** Show store validation errors on `Form.Item` (default: true) */
+  syncErrors?: boolean;
+}
+
+/**
+ * Internal rc-field-form hooks (same entry point `Form.useWatch` uses) - private
+ * API, covered by the adapter conformance test.
+ */
+interface InternalFormHooks {
+  registerWatch?: (callback: () => void) => () => void;
+}
+
+type InternalFormInstance = {
+  getInternalHooks?: (mark: string) => InternalFormHooks | null;
+};
+
+const HOOK_MARK = 'RC_FORM_INTERNAL_HOOKS';
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+/**
+ * Adapter for an antd `Form` instance.
+ *
+ * @example
+ * ```tsx
+ * const [form] = Form.useForm();
+ * const adapter = useMemo(() => createAntdAdapter(form), [form]);
+ *
+ * <Form form={form}>
+ *   <XSelectProvider configs={configs} adapter={adapter}>...</XSelectProvider>
+ * </Form>
+ * ```
+ */
+export function createAntdAdapter(
+  form: FormInstance,
+  options: AntdAdapterOptions = {},
+): FormAdapter {
+  const { syncTouched = true, syncErrors = true } = options;
+
+  return {
+    onFieldChange: (name, value) => {
+      form.setFieldValue(toFormListPath(name), value);
+    },
+    onFieldsChange: (fields) => {
+      form.setFields(
+        fields.map(({ name, value }) => ({ name: toFormListPath(name), value })),
+      );
+    },
+    onRowChange: (change) => {
+      form.setFieldValue(
+        change.arrayName,
+        applyRowChange(form.getFieldValue(change.arrayName), change),
+      );
+    },
+    getValue: (name) => form.getFieldValue(toFormListPath(name)),
+    subscribe: (listener) => {
+      const hooks = (form as InternalFormInstance).getInternalHooks?.(HOOK_MARK);
+
+      if (!hooks?.registerWatch) {
+        throw new Error(
+          '[XSelect] createAntdAdapter: antd form watch hook not found ' +
+            '(antd >= 4.20 required) - form changes would not reach the store',
+        );
+      }
+
+      return hooks.registerWatch(() => listener());
+    },
+    onFieldsMeta: (fields) => {
+      if (!syncTouched && !syncErrors) return;
+
+      form.setFields(
+        fields.map(({ name, touched, errors }) => ({
+          name: toFormListPath(name),
+          ...(syncTouched && { touched }),
+          ...(syncErrors && { errors: [...errors] }),
+        })),
+      );
+    },
+  };
+}
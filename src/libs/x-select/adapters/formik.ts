@@ -0,0 +1,111 @@
+/**
+ * XSelect - Formik Adapter
+ *
+ * - Store → form: values (batched via `setValues`), touched and errors
+ * - Writes build on the adapter's own copy of the values - Formik's functional
+ *   `setValues` reads render-time state, so same-tick writes would drop each other
+ * - Formik's validate-on-change replaces all errors; store errors are re-applied
+ *   once it settles
+ * - Form → store: Formik has no subscription API - recreate the adapter
+ *   when the formik bag changes; the store re-reads the form on every
+ *   `setAdapter`, so external `setValues` / `resetForm` are picked up
+ * - Row field names (`items[0].project`) are valid Formik paths as-is
+ */
+
+import type { FormikProps } from 'formik';
+import { getIn, setIn } from 'formik';
+
+import type { FormAdapter } from '../types';
+import { applyRowChange } from '../utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FormikAdapterOptions {
+  /** Mark fields touched in the form (default: true) */
+  syncTouched?: boolean;
+
+  /** Report store validation errors via `setFieldError` (default: true) */
+  syncErrors?: boolean;
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+/**
+ * Store errors per Formik instance, kept across adapters of the same form
+ * (`setFieldError` is stable for the lifetime of the form)
+ */
+const storeErrorsByForm = new WeakMap<
+  (field: string, message?: string) => void,
+  Map<string, string>
+>();
+
+/**
+ * Adapter for a Formik bag (`useFormik()` / `<Formik>` render props).
+ *
+ * @example
+ * ```tsx
+ * const formik = useFormik({ initialValues, onSubmit });
+ * const adapter = useMemo(() => createFormikAdapter(formik), [formik]);
+ *
+ * <XSelectProvider configs={configs} adapter={adapter}>...</XSelectProvider>
+ * ```
+ */
+export function createFormikAdapter<TValues extends object>(
+  formik: FormikProps<TValues>,
+  options: FormikAdapterOptions = {},
+): FormAdapter {
+  const { syncTouched = true, syncErrors = true } = options;
+
+  let storeErrors = storeErrorsByForm.get(formik.setFieldError);
+  if (!storeErrors) {
+    storeErrors = new Map();
+    storeErrorsByForm.set(formik.setFieldError, storeErrors);
+  }
+
+  const reapplyErrors = () => {
+    for (const [name, message] of storeErrors)
+      formik.setFieldError(name, message);
+  };
+
+  let values = formik.values;
+  const writeValues = (next: TValues) => {
+    values = next;
+    void formik.setValues(next).then(reapplyErrors);
+  };
+
+  return {
+    onFieldChange: (name, value) => {
+      writeValues(setIn(values, name, value));
+    },
+    onFieldsChange: (fields) => {
+      writeValues(
+        fields.reduce<TValues>(
+          (acc, { name, value }) => setIn(acc, name, value),
+          values,
+        ),
+      );
+    },
+    onRowChange: (change) => {
+      const rows = applyRowChange(getIn(values, change.arrayName), change);
+      writeValues(setIn(values, change.arrayName, rows));
+    },
+    getValue: (name) => getIn(values, name),
+    onFieldsMeta: (fields) => {
+      for (const { name, touched, errors } of fields) {
+        if (syncTouched && touched !== !!getIn(formik.touched, name)) {
+          formik.setFieldTouched(name, touched, false);
+        }
+        if (syncErrors) {
+          const message = errors.length > 0 ? errors.join(', ') : undefined;
+          if (message) storeErrors.set(name, message);
+          else storeErrors.delete(name);
+          formik.setFieldError(name, message);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * XSelect - Form Adapter Exports
+ */
+
+export { createAntdAdapter } from './antd';
+export type { AntdAdapterOptions } from './antd';
+
+export { createRHFAdapter } from './reactHookForm';
+export type { RHFAdapterOptions } from './reactHookForm';
+
+export { createFormikAdapter } from './formik';
+export type { FormikAdapterOptions } from './formik';
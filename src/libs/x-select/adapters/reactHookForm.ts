@@ -0,0 +1,104 @@
+/**
+ * XSelect - react-hook-form Adapter
+ *
+ * - Store → form: values (`setValue`), touched and errors (`setError`)
+ * - Form → store: external `setValue` / `reset` (`subscribe`)
+ * - Row fields map to `useFieldArray` names (`items[0].project` → `items.0.project`)
+ *
+ * NOTE: Takes the `useForm()` result rather than `control`: `control` has no
+ * public `setValue` / `setError` / `getFieldState`, only internals that change
+ * between minor versions. Needs react-hook-form >= 7.55 (`form.subscribe`).
+ */
+
+import type {
+  FieldPath,
+  FieldValues as RHFFieldValues,
+  PathValue,
+  UseFormReturn,
+} from 'react-hook-form';
+
+import type { FormAdapter } from '../types';
+import { applyRowChange, toFieldArrayName } from '../utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RHFAdapterOptions {
+  /** Mark fields touched in the form (default: true) */
+  syncTouched?: boolean;
+
+  /** Report store validation errors via `setError` (default: true) */
+  syncErrors?: boolean;
+}
+
+/** `setError` type used for store validation errors */
+const ERROR_TYPE = 'xselect';
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+/**
+ * Adapter for a react-hook-form `useForm()` result (pass `form`, not
+ * `form.control`). Resolver/`rules` errors are left untouched; only errors
+ * set by the adapter are cleared.
+ *
+ * @example
+ * ```tsx
+ * const form = useForm<FormValues>();
+ * const adapter = useMemo(() => createRHFAdapter(form), [form]);
+ *
+ * <XSelectProvider configs={configs} adapter={adapter}>...</XSelectProvider>
+ * ```
+ */
+export function createRHFAdapter<TFieldValues extends RHFFieldValues>(
+  form: UseFormReturn<TFieldValues>,
+  options: RHFAdapterOptions = {},
+): FormAdapter {
+  const { syncTouched = true, syncErrors = true } = options;
+
+  type Name = FieldPath<TFieldValues>;
+  type Value = PathValue<TFieldValues, Name>;
+
+  const toName = (name: string) => toFieldArrayName(name) as Name;
+
+  const setValue = (name: string, value: unknown) => {
+    form.setValue(toName(name), value as Value, { shouldDirty: true });
+  };
+
+  return {
+    onFieldChange: setValue,
+    onFieldsChange: (fields) => {
+      for (const { name, value } of fields) setValue(name, value);
+    },
+    onRowChange: (change) => {
+      const name = change.arrayName as Name;
+      form.setValue(name, applyRowChange(form.getValues(name), change) as Value);
+    },
+    getValue: (name) => form.getValues(toName(name)),
+    subscribe: (listener) =>
+      form.subscribe({
+        formState: { values: true },
+        callback: () => listener(),
+      }),
+    onFieldsMeta: (fields) => {
+      for (const { name, touched, errors } of fields) {
+        const fieldName = toName(name);
+        const state = form.getFieldState(fieldName);
+
+        if (syncErrors) {
+          if (errors.length > 0) {
+            form.setError(fieldName, { type: ERROR_TYPE, message: errors.join(', ') });
+          } else if (state.error?.type === ERROR_TYPE) {
+            form.clearErrors(fieldName);
+          }
+        }
+
+        if (syncTouched && touched && !state.isTouched) {
+          form.setValue(fieldName, form.getValues(fieldName), { shouldTouch: true });
+        }
+      }
+    },
+  };
+}
@@ -7,6 +7,9 @@ export {
   DependentWrapper,
   InfiniteWrapper,
   StaticWrapper,
+  FieldWrapper,
+  CascaderWrapper,
+  TreeWrapper,
   DependentContext,
   useDependentContext,
 } from './wrappers';
@@ -19,8 +22,19 @@ export type {
   StaticWrapperProps,
   StaticInjectedProps,
   StaticOption,
+  FieldWrapperProps,
+  CascaderWrapperProps,
+  CascaderInjectedProps,
+  CascaderOption,
+  TreeWrapperProps,
+  TreeInjectedProps,
+  TreeOption,
 } from './wrappers';
 
+// Virtual List
+export { VirtualList } from './virtual';
+export type { VirtualListConfig, VirtualListProps } from './virtual';
+
 // Error Recovery Components
 export {
   ErrorDisplay,
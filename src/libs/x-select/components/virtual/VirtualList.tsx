@@ -0,0 +1,132 @@
+/**
+ * VirtualList - Fixed-height Windowed List
+ *
+ * Renders only the rows in view (+ overscan), for custom option lists in
+ * render props. antd `Select` children of the wrappers need nothing - antd
+ * virtualizes its option list by default.
+ *
+ * @example
+ * ```tsx
+ * <StaticWrapper options={postalCodes} worker virtual>
+ *   {({ rawOptions, onChange, virtual }) => (
+ *     <VirtualList
+ *       {...virtual}
+ *       items={rawOptions}
+ *       getKey={(option) => option.value}
+ *       renderItem={(option) => (
+ *         <div onClick={() => onChange(option.value)}>{option.label}</div>
+ *       )}
+ *     />
+ *   )}
+ * </StaticWrapper>
+ * ```
+ */
+
+import React, { useCallback, useState } from 'react';
+import type { CSSProperties, Key, ReactNode, UIEvent } from 'react';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Virtual list sizing.
+ */
+export interface VirtualListConfig {
+  /** Row height in px - default: 32 */
+  itemHeight?: number;
+
+  /** Viewport height in px - default: 256 */
+  height?: number;
+
+  /** Rows rendered above / below the viewport - default: 8 */
+  overscan?: number;
+}
+
+export interface VirtualListProps<T> extends VirtualListConfig {
+  items: readonly T[];
+  renderItem: (item: T, index: number) => ReactNode;
+  getKey?: (item: T, index: number) => Key;
+  className?: string;
+  style?: CSSProperties;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const DEFAULT_CONFIG: Required<VirtualListConfig> = {
+  itemHeight: 32,
+  height: 256,
+  overscan: 8,
+};
+
+/**
+ * Resolve the `virtual` prop of the wrappers (undefined = not virtual).
+ */
+export function resolveVirtualConfig(
+  virtual: boolean | VirtualListConfig | undefined,
+): Required<VirtualListConfig> | undefined {
+  if (!virtual) return undefined;
+  return virtual === true ? DEFAULT_CONFIG : { ...DEFAULT_CONFIG, ...virtual };
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function VirtualList<T>({
+  items,
+  renderItem,
+  getKey,
+  itemHeight = DEFAULT_CONFIG.itemHeight,
+  height = DEFAULT_CONFIG.height,
+  overscan = DEFAULT_CONFIG.overscan,
+  className,
+  style,
+}: VirtualListProps<T>) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const handleScroll = useCallback((event: UIEvent<HTMLDivElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const end = Math.min(
+    items.length,
+    Math.ceil((scrollTop + height) / itemHeight) + overscan,
+  );
+
+  const rows: ReactNode[] = [];
+  for (let index = start; index < end; index++) {
+    const item = items[index];
+    rows.push(
+      <div
+        key={getKey?.(item, index) ?? index}
+        style={{
+          position: 'absolute',
+          top: index * itemHeight,
+          left: 0,
+          right: 0,
+          height: itemHeight,
+        }}
+      >
+        {renderItem(item, index)}
+      </div>,
+    );
+  }
+
+  return (
+    <div
+      className={className}
+      style={{ height, overflowY: 'auto', ...style }}
+      onScroll={handleScroll}
+    >
+      <div style={{ position: 'relative', height: items.length * itemHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
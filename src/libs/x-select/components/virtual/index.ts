@@ -0,0 +1,10 @@
+/**
+ * Virtual List Components
+ */
+
+export {
+  VirtualList,
+  resolveVirtualConfig,
+  type VirtualListConfig,
+  type VirtualListProps,
+} from './VirtualList';
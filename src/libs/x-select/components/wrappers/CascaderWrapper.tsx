@@ -0,0 +1,153 @@
+/**
+ * CascaderWrapper - Field Chain as One Cascader
+ *
+ * Shows a `dependsOn` chain (country → province → city) as a single
+ * Cascader. Injects props into children (value, onChange, options, loadData).
+ *
+ * Features:
+ * - Same configs as separate `XSelect.Dependent` selects
+ * - Async levels lazy-load through the fields' `options` loaders
+ * - Selected path is written back to the individual fields
+ *
+ * @example
+ * ```tsx
+ * <XSelect.Cascader name="city">
+ *   <Cascader placeholder="Country / Province / City" changeOnSelect />
+ * </XSelect.Cascader>
+ * ```
+ */
+
+import React, { isValidElement, useCallback, useMemo } from 'react';
+import type { ReactElement, ReactNode } from 'react';
+
+import { useXSelectStore } from '../../contexts';
+import { useXSelectHierarchy } from '../../hooks';
+import type { HierarchyNode, HierarchyValue } from '../../hooks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Cascader option (antd `Cascader` shape).
+ */
+export interface CascaderOption {
+  value: HierarchyValue;
+  label: string;
+  disabled?: boolean;
+  isLeaf: boolean;
+  children?: CascaderOption[];
+
+  /** Values from the root down to this option */
+  path: HierarchyValue[];
+}
+
+/**
+ * Props injected into children.
+ */
+export interface CascaderInjectedProps {
+  /** Selected path */
+  value: HierarchyValue[];
+
+  /** Change handler (empty / undefined clears the chain) */
+  onChange: (path?: HierarchyValue[] | null) => void;
+
+  /** Nested options */
+  options: CascaderOption[];
+
+  /** Lazy-load children of the last selected option */
+  loadData: (selectedOptions: CascaderOption[]) => void;
+
+  /** Root options loading */
+  loading: boolean;
+
+  /** Disabled state */
+  disabled?: boolean;
+}
+
+/**
+ * Props for CascaderWrapper.
+ */
+export interface CascaderWrapperProps {
+  /** Leaf field - the chain follows its `dependsOn` links */
+  name?: string;
+
+  /** Explicit chain, root first (instead of `name`) */
+  fields?: string[];
+
+  /** Disabled state */
+  disabled?: boolean;
+
+  /** Children - ReactElement or render function */
+  children: ReactElement | ((props: CascaderInjectedProps) => ReactNode);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toCascaderOptions(nodes: HierarchyNode[]): CascaderOption[] {
+  return nodes.map((node) => ({
+    value: node.value,
+    label: node.label,
+    disabled: node.disabled,
+    path: node.path,
+    isLeaf: node.isLeaf || node.children?.length === 0,
+    children: node.children && toCascaderOptions(node.children),
+  }));
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function CascaderWrapper({
+  name,
+  fields,
+  disabled,
+  children,
+}: CascaderWrapperProps) {
+  const store = useXSelectStore();
+  const hierarchy = useXSelectHierarchy(store, fields ?? name ?? []);
+  const { nodes, loadChildren, onChange: setPath } = hierarchy;
+
+  const options = useMemo(() => toCascaderOptions(nodes), [nodes]);
+
+  const onChange = useCallback(
+    (path?: HierarchyValue[] | null) => setPath(path ?? []),
+    [setPath],
+  );
+
+  const loadData = useCallback(
+    (selectedOptions: CascaderOption[]) => {
+      const target = selectedOptions[selectedOptions.length - 1];
+      if (target) loadChildren(target.path);
+    },
+    [loadChildren],
+  );
+
+  const injectedProps: CascaderInjectedProps = {
+    value: hierarchy.value,
+    onChange,
+    options,
+    loadData,
+    loading: hierarchy.loading,
+    disabled,
+  };
+
+  if (typeof children === 'function') {
+    return <>{children(injectedProps)}</>;
+  }
+
+  if (isValidElement(children)) {
+    const childProps = children.props as Partial<CascaderInjectedProps>;
+    return React.cloneElement(children as ReactElement<CascaderInjectedProps>, {
+      ...injectedProps,
+      disabled: childProps.disabled ?? injectedProps.disabled,
+    });
+  }
+
+  return children;
+}
+
+export default CascaderWrapper;
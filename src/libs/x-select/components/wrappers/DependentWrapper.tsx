@@ -7,7 +7,11 @@
  * Features:
  * - Auto-fetch value from store
  * - Auto-filter options by parent value
- * - Auto-disable when parent has no value
+ * - Auto-disable when parent has no value (and for read-only computed fields)
+ * - Respects `visibleWhen` (renders nothing) and `disabledWhen`
+ * - Auto-render async options error with retry (`showError`)
+ * - Large option sets: parent filtering + search in a Web Worker (`worker`),
+ *   virtual list sizing for render props (`virtual`)
  * - Supports render props and React.cloneElement
  *
  * @example Basic usage
@@ -30,19 +34,32 @@
  *   )}
  * </DependentWrapper>
  * ```
+ *
+ * @example 20k+ static options
+ * ```tsx
+ * <DependentWrapper name="postalCode" worker>
+ *   <Select placeholder="Select postal code" />
+ * </DependentWrapper>
+ * ```
  */
 
 import React, {
   createContext,
   isValidElement,
   memo,
+  useCallback,
   useContext,
   useMemo,
   useRef,
+  useState,
 } from 'react';
 import type { ReactElement, ReactNode } from 'react';
 
 import { useXSelectField } from '../../contexts';
+import { useOptionsSearch } from '../../hooks';
+import { ErrorDisplay } from '../error';
+import { resolveVirtualConfig } from '../virtual';
+import type { VirtualListConfig } from '../virtual';
 import type { XSelectOption, FormattedOption, DependentContextValue } from '../../types';
 import { formatOptions } from '../../utils';
 
@@ -71,6 +88,21 @@ export interface DependentInjectedProps {
 
   /** Loading state */
   loading?: boolean;
+
+  /** Async options load error (render props only) */
+  error?: Error | null;
+
+  /** Reload async options (render props only) */
+  onRetry?: () => void;
+
+  /** Search value (worker mode) */
+  searchValue?: string;
+
+  /** Search handler (worker mode) */
+  onSearch?: (value: string) => void;
+
+  /** Virtual list sizing (if `virtual` is used, render props only) */
+  virtual?: Required<VirtualListConfig>;
 }
 
 /**
@@ -92,6 +124,21 @@ export interface DependentWrapperProps {
   /** External loading state */
   loading?: boolean;
 
+  /** Render ErrorDisplay below the select when async options fail (default: true) */
+  showError?: boolean;
+
+  /**
+   * Parent filtering + label search in a Web Worker (large static option
+   * sets). Ignored for async fields and `dependsOn` arrays.
+   */
+  worker?: boolean;
+
+  /**
+   * Virtual list sizing passed to render props (render with `VirtualList`).
+   * No effect on cloned children - antd `Select` is already virtualized.
+   */
+  virtual?: boolean | VirtualListConfig;
+
   /** Children - ReactElement or render function */
   children: ReactElement | ((props: DependentInjectedProps) => ReactNode);
 }
@@ -116,6 +163,8 @@ export function useDependentContext(): DependentContextValue | null {
 // HELPERS
 // ============================================================================
 
+const EMPTY_OPTIONS: XSelectOption[] = [];
+
 function areOptionsEqual(
   a: XSelectOption[] | undefined,
   b: XSelectOption[] | undefined,
@@ -129,6 +178,17 @@ function areOptionsEqual(
   return true;
 }
 
+function areVirtualEqual(
+  a: DependentWrapperProps['virtual'],
+  b: DependentWrapperProps['virtual'],
+): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object') return false;
+  return (
+    a.itemHeight === b.itemHeight && a.height === b.height && a.overscan === b.overscan
+  );
+}
+
 function areChildrenEqual(
   a: DependentWrapperProps['children'],
   b: DependentWrapperProps['children'],
@@ -153,6 +213,9 @@ function arePropsEqual(
   if (prevProps.name !== nextProps.name) return false;
   if (prevProps.disabled !== nextProps.disabled) return false;
   if (prevProps.loading !== nextProps.loading) return false;
+  if (prevProps.showError !== nextProps.showError) return false;
+  if (prevProps.worker !== nextProps.worker) return false;
+  if (!areVirtualEqual(prevProps.virtual, nextProps.virtual)) return false;
   if (!areOptionsEqual(prevProps.options, nextProps.options)) return false;
   if (!areChildrenEqual(prevProps.children, nextProps.children)) return false;
 
@@ -168,6 +231,9 @@ function DependentWrapperInner({
   disabled: disabledProp,
   options: externalOptions,
   loading: externalLoading,
+  showError = true,
+  worker = false,
+  virtual,
   children,
 }: DependentWrapperProps) {
   const childrenRef = useRef(children);
@@ -192,21 +258,55 @@ function DependentWrapperInner({
     parentValue,
     parentValues,
     isLoading: storeLoading,
+    optionsError,
+    retryOptions,
     isDisabledByParent,
+    isReadOnly,
+    isHidden,
+    isDisabledByRule,
     onChange,
   } = useXSelectField(name, { options: externalOptions });
 
-  const resolvedOptions = externalOptions ?? storeOptions;
+  // Worker mode: full static option set, filtered + searched in the worker
+  const workerOptions =
+    externalOptions ??
+    (Array.isArray(fieldConfig?.options) ? fieldConfig.options : undefined);
+  const isWorkerMode =
+    worker && !!workerOptions && !Array.isArray(fieldConfig?.dependsOn);
+
+  const [searchValue, setSearchValue] = useState('');
+  const handleSearch = useCallback((val: string) => setSearchValue(val), []);
+
+  const workerSearch = useOptionsSearch(
+    workerOptions ?? EMPTY_OPTIONS,
+    {
+      filterByParent: !!fieldConfig?.dependsOn,
+      parentValue,
+      query: searchValue,
+    },
+    { enabled: isWorkerMode },
+  );
+
+  const workerResults = useMemo(
+    () => workerSearch.matches?.map((match) => match.option) ?? EMPTY_OPTIONS,
+    [workerSearch.matches],
+  );
+
+  const resolvedOptions = isWorkerMode ? workerResults : externalOptions ?? storeOptions;
 
   const formattedOptions = useMemo(
     () => formatOptions(resolvedOptions),
     [resolvedOptions],
   );
 
-  const isLoading = externalLoading ?? storeLoading;
-  const isDisabled = disabledProp || isDisabledByParent;
+  const isLoading =
+    externalLoading ?? (storeLoading || (isWorkerMode && workerSearch.matches === null));
+  const virtualConfig = resolveVirtualConfig(virtual);
+  const isDisabled =
+    disabledProp || isDisabledByParent || isReadOnly || isDisabledByRule;
 
-  const injectedProps: DependentInjectedProps = {
+  // error/onRetry are only passed to render props (unknown to Select)
+  const elementProps: DependentInjectedProps = {
     value,
     onChange,
     disabled: isDisabled,
@@ -215,6 +315,14 @@ function DependentWrapperInner({
     loading: isLoading,
   };
 
+  const injectedProps: DependentInjectedProps = {
+    ...elementProps,
+    error: optionsError,
+    onRetry: retryOptions,
+    ...(isWorkerMode && { searchValue, onSearch: handleSearch }),
+    virtual: virtualConfig,
+  };
+
   const hasDependency = !!fieldConfig?.dependsOn;
 
   const contextValue: DependentContextValue = useMemo(
@@ -231,6 +339,8 @@ function DependentWrapperInner({
     [name, value, parentValue, parentValues, onChange, isDisabled, isLoading, hasDependency],
   );
 
+  if (isHidden) return null;
+
   if (!fieldConfig) {
     console.warn(
       `[DependentWrapper] No config found for field "${name}". ` +
@@ -247,26 +357,40 @@ function DependentWrapperInner({
       ? stableChildren(injectedProps)
       : isValidElement(stableChildren)
         ? React.cloneElement(stableChildren as React.ReactElement<any>, {
-            ...injectedProps,
-            value: currentChildProps.value ?? injectedProps.value,
-            onChange: currentChildProps.onChange ?? injectedProps.onChange,
+            ...elementProps,
+            value: currentChildProps.value ?? elementProps.value,
+            onChange: currentChildProps.onChange ?? elementProps.onChange,
             disabled:
-              (stableChildren.props as any).disabled ?? injectedProps.disabled,
+              (stableChildren.props as any).disabled ?? elementProps.disabled,
             options:
-              (stableChildren.props as any).options ?? injectedProps.options,
+              (stableChildren.props as any).options ?? elementProps.options,
             loading:
-              (stableChildren.props as any).loading ?? injectedProps.loading,
-            parentValue: injectedProps.parentValue,
+              (stableChildren.props as any).loading ?? elementProps.loading,
+            parentValue: elementProps.parentValue,
             mode: fieldConfig?.mode,
             placeholder:
               (stableChildren.props as any).placeholder ??
               fieldConfig?.placeholder,
+            ...(isWorkerMode && {
+              showSearch: true,
+              searchValue,
+              onSearch: handleSearch,
+              filterOption: false, // Searched in the worker
+            }),
           })
         : stableChildren;
 
   return (
     <DependentContext.Provider value={contextValue}>
       {content}
+      {showError && optionsError && !externalOptions && (
+        <ErrorDisplay
+          error={optionsError}
+          onRetry={retryOptions}
+          isRetrying={storeLoading}
+          inline
+        />
+      )}
     </DependentContext.Provider>
   );
 }
@@ -0,0 +1,87 @@
+/**
+ * FieldWrapper - Runtime Field Registration
+ *
+ * Registers a field config with the store on mount and unregisters it on
+ * unmount, so form sections can add cascading fields after the provider
+ * was created (e.g. an "advanced filters" panel).
+ *
+ * Features:
+ * - Registered before children render (they see the config immediately)
+ * - Config changes re-register the field (pass a stable/memoized config)
+ * - Value is kept on unmount unless `clearOnUnmount`
+ *
+ * @example
+ * ```tsx
+ * const taskConfig = { name: 'task', dependsOn: 'project', options: loadTasks };
+ *
+ * {showAdvanced && (
+ *   <XSelect.Field config={taskConfig}>
+ *     <XSelect.Dependent name="task">
+ *       <Select />
+ *     </XSelect.Dependent>
+ *   </XSelect.Field>
+ * )}
+ * ```
+ */
+
+import React, { useEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
+
+import { useXSelectStore } from '../../contexts';
+import type { FieldConfig } from '../../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Props for FieldWrapper.
+ */
+export interface FieldWrapperProps {
+  /** Field config to register */
+  config: FieldConfig;
+
+  /** Clear the value (and cascade) on unmount - default: false */
+  clearOnUnmount?: boolean;
+
+  /** Children (usually the field's `XSelect.Dependent`) */
+  children?: ReactNode;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Register a field for the lifetime of this component.
+ */
+export function FieldWrapper({
+  config,
+  clearOnUnmount = false,
+  children,
+}: FieldWrapperProps) {
+  const store = useXSelectStore();
+  const { name } = config;
+
+  const clearOnUnmountRef = useRef(clearOnUnmount);
+  clearOnUnmountRef.current = clearOnUnmount;
+
+  // Register during render so children's first render sees the config
+  if (store.getConfig(name) !== config) {
+    store.registerField(config);
+  }
+
+  // Re-register after StrictMode remounts / config changes
+  useEffect(() => {
+    store.registerField(config);
+  }, [store, config]);
+
+  useEffect(
+    () => () => {
+      store.unregisterField(name, { clearValue: clearOnUnmountRef.current });
+    },
+    [store, name],
+  );
+
+  return <>{children}</>;
+}
@@ -7,6 +7,8 @@
  * Features:
  * - Infinite scroll with React Query
  * - Hydration for selected values
+ * - Selected values that no longer exist shown as "unavailable"
+ * - "Select all N matching" footer for multi-mode children
  * - Auto-get parentValue from DependentWrapper if nested
  * - Supports render props and React.cloneElement
  *
@@ -28,11 +30,12 @@
  */
 
 import React, { isValidElement, useEffect, useMemo } from 'react';
-import type { ReactElement, ReactNode } from 'react';
+import type { CSSProperties, ReactElement, ReactNode } from 'react';
 
 import { useXSelectStoreOptional } from '../../contexts';
 import { useInfiniteSelect } from '../../hooks';
 import type {
+  AllMatchingValue,
   BaseItem,
   FetchRequest,
   FetchResponse,
@@ -94,6 +97,27 @@ export interface InfiniteInjectedProps<T extends BaseItem = BaseItem> {
   /** Whether currently retrying */
   isRetrying: boolean;
 
+  /** Selected values that no longer exist - render as "unavailable" */
+  missingValues: Array<string | number>;
+
+  /** Remove `missingValues` from the value */
+  removeMissingValues: () => void;
+
+  /** Server total for the current search / parent */
+  total: number | undefined;
+
+  /** Symbolic "all matching" value, if selected */
+  allMatching: AllMatchingValue | null;
+
+  /** Items covered by `allMatching` */
+  allMatchingCount: number | undefined;
+
+  /** Expanding "select all matching" to explicit ids */
+  isSelectingAll: boolean;
+
+  /** Select every item matching the current search / parent */
+  selectAllMatching: () => void;
+
   /** Open/close handler */
   onOpenChange: (open: boolean) => void;
 
@@ -133,17 +157,45 @@ export interface InfiniteWrapperProps<T extends BaseItem = BaseItem> {
   fetchByIds?: (
     ids: Array<string | number>,
     parentValue?: unknown,
+    signal?: AbortSignal,
   ) => Promise<T[]>;
 
   /** Items per page (default: 20) */
   pageSize?: number;
 
+  /** Pagination mode: 'offset' | 'cursor' (default: 'offset') */
+  paginationMode?: 'offset' | 'cursor';
+
   /** Fetch strategy: 'eager' | 'lazy' (default: 'lazy') */
   fetchStrategy?: 'eager' | 'lazy';
 
   /** Stale time for React Query (ms) */
   staleTime?: number;
 
+  /** Entity key for batched hydration across selects */
+  hydrationKey?: string;
+
+  /** Remove selected values that no longer exist (default: false) */
+  autoRemoveMissing?: boolean;
+
+  /** Called when selected values no longer exist */
+  onMissingValues?: (values: Array<string | number>) => void;
+
+  /**
+   * Label of a selected value that no longer exists (cloned children only).
+   * Default: "Unavailable (#id)" in a muted, struck-through style.
+   */
+  renderMissingValue?: (value: string | number) => ReactNode;
+
+  /** Show a "Select all N matching" popup footer (cloned multi-mode children) */
+  showSelectAll?: boolean;
+
+  /** "Select all matching" result: 'symbolic' | 'expand' (default: 'symbolic') */
+  selectAllMode?: 'symbolic' | 'expand';
+
+  /** Page size when expanding "select all matching" (default: 100) */
+  selectAllBatchSize?: number;
+
   /** Get ID from item */
   getItemId?: (item: T) => string | number;
 
@@ -157,10 +209,10 @@ export interface InfiniteWrapperProps<T extends BaseItem = BaseItem> {
   parentValue?: unknown;
 
   /** Controlled value */
-  value?: SelectValue;
+  value?: SelectValue | AllMatchingValue;
 
   /** Change handler */
-  onChange?: (value: SelectValue) => void;
+  onChange?: (value: SelectValue | AllMatchingValue) => void;
 
   /** Disabled state */
   disabled?: boolean;
@@ -172,6 +224,42 @@ export interface InfiniteWrapperProps<T extends BaseItem = BaseItem> {
   children: ReactElement | ((props: InfiniteInjectedProps<T>) => ReactNode);
 }
 
+// ============================================================================
+// MISSING VALUES
+// ============================================================================
+
+const missingValueStyle: CSSProperties = {
+  color: 'rgba(0, 0, 0, 0.45)',
+  textDecoration: 'line-through',
+};
+
+function defaultRenderMissingValue(value: string | number): ReactNode {
+  return (
+    <span
+      style={missingValueStyle}
+      title="This item was deleted or is no longer available"
+    >
+      Unavailable (#{value})
+    </span>
+  );
+}
+
+// ============================================================================
+// SELECT ALL MATCHING
+// ============================================================================
+
+/** Keeps the child's tag area filled while "all matching" is selected */
+const ALL_MATCHING_KEY = '__xselect_all_matching__';
+
+const selectAllFooterStyle: CSSProperties = {
+  padding: '4px 12px',
+  borderTop: '1px solid rgba(5, 5, 5, 0.06)',
+};
+
+function formatAllMatching(count: number | undefined): string {
+  return count === undefined ? 'All matching' : `All ${count} matching`;
+}
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -181,8 +269,16 @@ export function InfiniteWrapper<T extends BaseItem = BaseItem>({
   fetchList,
   fetchByIds,
   pageSize,
+  paginationMode,
   fetchStrategy,
   staleTime,
+  hydrationKey,
+  autoRemoveMissing,
+  onMissingValues,
+  renderMissingValue = defaultRenderMissingValue,
+  showSelectAll = false,
+  selectAllMode,
+  selectAllBatchSize,
   getItemId,
   getItemLabel,
   getItemParentValue,
@@ -198,12 +294,12 @@ export function InfiniteWrapper<T extends BaseItem = BaseItem>({
 
   // Resolve values - props take priority, then context
   const parentValue = parentValueProp ?? dependentContext?.parentValue;
-  const value = (valueProp ?? dependentContext?.value) as SelectValue;
+  const value = (valueProp ?? dependentContext?.value) as SelectValue | AllMatchingValue;
   const isDisabledByParent = dependentContext?.isDisabledByParent ?? false;
 
   // Use onChangeProp if provided, otherwise use context onChange
   // Don't call both to avoid double updates
-  const handleChange = (newValue: SelectValue) => {
+  const handleChange = (newValue: SelectValue | AllMatchingValue) => {
     if (onChangeProp) {
       onChangeProp(newValue);
     } else {
@@ -229,8 +325,14 @@ export function InfiniteWrapper<T extends BaseItem = BaseItem>({
     fetchList,
     fetchByIds,
     pageSize,
+    paginationMode,
     fetchStrategy,
     staleTime,
+    hydrationKey,
+    autoRemoveMissing,
+    onMissingValues,
+    selectAllMode,
+    selectAllBatchSize,
     getItemId,
     getItemLabel,
     getItemParentValue,
@@ -284,6 +386,13 @@ export function InfiniteWrapper<T extends BaseItem = BaseItem>({
     listError: infiniteResult.listError,
     hydrationError: infiniteResult.hydrationError,
     isRetrying: infiniteResult.isRetrying,
+    missingValues: infiniteResult.missingValues,
+    removeMissingValues: infiniteResult.removeMissingValues,
+    total: infiniteResult.total,
+    allMatching: infiniteResult.allMatching,
+    allMatchingCount: infiniteResult.allMatchingCount,
+    isSelectingAll: infiniteResult.isSelectingAll,
+    selectAllMatching: infiniteResult.selectAllMatching,
     onOpenChange: infiniteResult.onOpenChange,
     onScroll: infiniteResult.onScroll,
     onSearch: infiniteResult.onSearch,
@@ -299,6 +408,50 @@ export function InfiniteWrapper<T extends BaseItem = BaseItem>({
   }
 
   if (isValidElement(children)) {
+    const { missingValues } = infiniteResult;
+    const childLabelRender = (children.props as any).labelRender;
+    const labelRender =
+      missingValues.length > 0 && !childLabelRender
+        ? ({ label, value: labelValue }: { label?: ReactNode; value: string | number }) =>
+            missingValues.some((missing) => String(missing) === String(labelValue))
+              ? renderMissingValue(labelValue)
+              : label ?? labelValue
+        : childLabelRender;
+
+    const { allMatching, allMatchingCount, total, isSelectingAll } = infiniteResult;
+    const isMultiple = ['multiple', 'tags'].includes((children.props as any).mode);
+
+    // "All matching": one summary tag, loaded items checked in the list
+    const allMatchingProps = allMatching
+      ? {
+          value: [ALL_MATCHING_KEY, ...(injectedProps.value as Array<string | number>)],
+          onChange: (next: SelectValue) =>
+            injectedProps.onChange(
+              Array.isArray(next) ? next.filter((v) => v !== ALL_MATCHING_KEY) : next,
+            ),
+          maxTagCount: 0,
+          maxTagPlaceholder: () => formatAllMatching(allMatchingCount),
+        }
+      : null;
+
+    const childPopupRender = (children.props as any).popupRender;
+    const popupRender =
+      showSelectAll && isMultiple && !allMatching && total
+        ? (menu: ReactElement) => (
+            <>
+              {childPopupRender ? childPopupRender(menu) : menu}
+              <div style={selectAllFooterStyle}>
+                <a
+                  onClick={isSelectingAll ? undefined : infiniteResult.selectAllMatching}
+                  aria-disabled={isSelectingAll}
+                >
+                  {isSelectingAll ? 'Selecting…' : `Select all ${total} matching`}
+                </a>
+              </div>
+            </>
+          )
+        : childPopupRender;
+
     return (
       <>
         {React.cloneElement(children as React.ReactElement<any>, {
@@ -313,6 +466,9 @@ export function InfiniteWrapper<T extends BaseItem = BaseItem>({
           onSearch: injectedProps.onSearch,
           filterOption: false,
           allowClear: (children.props as any).allowClear ?? true,
+          labelRender,
+          popupRender,
+          ...allMatchingProps,
         })}
       </>
     );
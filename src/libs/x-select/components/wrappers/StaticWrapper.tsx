@@ -9,7 +9,9 @@
  * - Support metadata on options (icon, description, color, etc.)
  * - Optional async loading (one-time fetch)
  * - Auto-get parentValue from DependentWrapper if nested
- * - Client-side search/filter
+ * - Client-side search: accent-insensitive, fuzzy, ranked, with match highlights
+ * - Large option sets: parent filtering + search in a Web Worker (`worker`),
+ *   virtual list sizing for render props (`virtual`)
  * - Supports render props and React.cloneElement
  *
  * @example Basic usage with static options
@@ -37,6 +39,30 @@
  * </StaticWrapper>
  * ```
  *
+ * @example Highlighted search matches
+ * ```tsx
+ * <StaticWrapper options={cityOptions} searchKeys={['label', 'meta.aliases']}>
+ *   {({ rawOptions, getHighlights, ...props }) => (
+ *     <Select {...props} showSearch filterOption={false}>
+ *       {rawOptions.map((option) => (
+ *         <Select.Option key={option.value} value={option.value}>
+ *           {splitByRanges(option.label, getHighlights(option.value)).map((part, i) =>
+ *             part.matched ? <mark key={i}>{part.text}</mark> : part.text,
+ *           )}
+ *         </Select.Option>
+ *       ))}
+ *     </Select>
+ *   )}
+ * </StaticWrapper>
+ * ```
+ *
+ * @example 20k+ options
+ * ```tsx
+ * <StaticWrapper options={postalCodes} worker>
+ *   <Select placeholder="Postal code" />
+ * </StaticWrapper>
+ * ```
+ *
  * @example Nested with DependentWrapper
  * ```tsx
  * <DependentWrapper name="status">
@@ -52,7 +78,18 @@ import type { ReactElement, ReactNode } from 'react';
 import { useQuery } from '@umijs/max';
 
 import { useXSelectStoreOptional } from '../../contexts';
-import type { XSelectOption, SelectValue } from '../../types';
+import { useOptionsSearch } from '../../hooks';
+import { createSearchMatcher } from '../../search';
+import type {
+  MatchRange,
+  SearchEngine,
+  SearchKey,
+  SearchMatch,
+  XSelectOption,
+  SelectValue,
+} from '../../types';
+import { resolveVirtualConfig } from '../virtual';
+import type { VirtualListConfig } from '../virtual';
 import { useDependentContext } from './DependentWrapper';
 
 // ============================================================================
@@ -110,6 +147,9 @@ export interface StaticInjectedProps<TMeta = unknown> {
   /** Search handler */
   onSearch: (value: string) => void;
 
+  /** Match ranges of an option's searched key (default: 'label') for highlighting */
+  getHighlights: (value: string | number, key?: string) => MatchRange[];
+
   /** Disabled state */
   disabled?: boolean;
 
@@ -121,6 +161,9 @@ export interface StaticInjectedProps<TMeta = unknown> {
 
   /** Grouped options (if groupBy is used) */
   groupedOptions?: Record<string, StaticOption<TMeta>[]>;
+
+  /** Virtual list sizing (if `virtual` is used) - spread into `VirtualList` */
+  virtual?: Required<VirtualListConfig>;
 }
 
 /**
@@ -148,7 +191,16 @@ export interface StaticWrapperProps<TMeta = unknown> {
   /** Enable client-side search - default: true */
   searchable?: boolean;
 
-  /** Custom search filter function */
+  /** Searched keys of the default search engine - default: label + description */
+  searchKeys?: SearchKey<StaticOption<TMeta>>[];
+
+  /** Typo-tolerant matching of the default search engine - default: true */
+  fuzzy?: boolean;
+
+  /** Custom search engine (ranked results + highlights) */
+  searchEngine?: SearchEngine<StaticOption<TMeta>>;
+
+  /** Custom search filter function (no ranking / highlights) */
   filterOption?: (
     option: StaticOption<TMeta>,
     searchValue: string,
@@ -169,6 +221,19 @@ export interface StaticWrapperProps<TMeta = unknown> {
   /** Disabled state */
   disabled?: boolean;
 
+  /**
+   * Parent filtering + search in a Web Worker (large option sets).
+   * Uses the default search engine; `filterByParent`, `searchEngine`
+   * and `filterOption` are ignored.
+   */
+  worker?: boolean;
+
+  /**
+   * Virtual list sizing passed to render props (render with `VirtualList`).
+   * No effect on cloned children - antd `Select` is already virtualized.
+   */
+  virtual?: boolean | VirtualListConfig;
+
   /** Children - ReactElement or render function */
   children: ReactElement | ((props: StaticInjectedProps<TMeta>) => ReactNode);
 }
@@ -177,20 +242,9 @@ export interface StaticWrapperProps<TMeta = unknown> {
 // HELPERS
 // ============================================================================
 
-/**
- * Default search filter - case-insensitive label match.
- */
-function defaultFilterOption<TMeta>(
-  option: StaticOption<TMeta>,
-  searchValue: string,
-): boolean {
-  if (!searchValue) return true;
-  const search = searchValue.toLowerCase();
-  return (
-    option.label.toLowerCase().includes(search) ||
-    (option.description?.toLowerCase().includes(search) ?? false)
-  );
-}
+const DEFAULT_SEARCH_KEYS: SearchKey[] = ['label', { name: 'description', weight: 0.5 }];
+
+const EMPTY_RANGES: MatchRange[] = [];
 
 /**
  * Default parent value filter.
@@ -255,12 +309,17 @@ export function StaticWrapper<TMeta = unknown>({
   staleTime = 5 * 60 * 1000, // 5 minutes default
   filterByParent = defaultFilterByParent,
   searchable = true,
-  filterOption = defaultFilterOption,
+  searchKeys,
+  fuzzy = true,
+  searchEngine,
+  filterOption,
   groupBy,
   parentValue: parentValueProp,
   value: valueProp,
   onChange: onChangeProp,
   disabled: disabledProp,
+  worker = false,
+  virtual,
   children,
 }: StaticWrapperProps<TMeta>) {
   const dependentContext = useDependentContext();
@@ -317,17 +376,69 @@ export function StaticWrapper<TMeta = unknown>({
     return [];
   }, [staticOptions, asyncOptions]);
 
-  // Filter by parent value (if has dependency)
+  // Filter by parent value (if has dependency) - worker mode filters in the worker
   const parentFilteredOptions = useMemo<StaticOption<TMeta>[]>(() => {
-    if (!hasDependency) return baseOptions;
+    if (worker || !hasDependency) return baseOptions;
     return filterByParent(baseOptions, parentValue);
-  }, [baseOptions, hasDependency, parentValue, filterByParent]);
+  }, [worker, baseOptions, hasDependency, parentValue, filterByParent]);
+
+  // Worker mode: parent filtering + search off the main thread
+  const workerSearch = useOptionsSearch(
+    baseOptions,
+    {
+      filterByParent: hasDependency,
+      parentValue,
+      keepUnconstrained: true,
+      query: searchable ? searchValue : '',
+    },
+    { enabled: worker, keys: searchKeys ?? DEFAULT_SEARCH_KEYS, fuzzy },
+  );
+
+  // Default search engine
+  const defaultSearchEngine = useMemo(
+    () =>
+      createSearchMatcher<StaticOption<TMeta>>({
+        keys: searchKeys ?? DEFAULT_SEARCH_KEYS,
+        fuzzy,
+      }),
+    [searchKeys, fuzzy],
+  );
+
+  // Ranked search (custom filterOption opts out)
+  const searchMatches = useMemo<SearchMatch<StaticOption<TMeta>>[] | null>(() => {
+    if (worker) return workerSearch.matches ?? [];
+    if (!searchable || !searchValue || filterOption) return null;
+    const engine = searchEngine ?? defaultSearchEngine;
+    return engine.search(parentFilteredOptions, searchValue);
+  }, [
+    worker,
+    workerSearch.matches,
+    parentFilteredOptions,
+    searchable,
+    searchValue,
+    filterOption,
+    searchEngine,
+    defaultSearchEngine,
+  ]);
 
   // Apply search filter
   const filteredOptions = useMemo<StaticOption<TMeta>[]>(() => {
-    if (!searchable || !searchValue) return parentFilteredOptions;
+    if (searchMatches) return searchMatches.map((match) => match.option);
+    if (!searchable || !searchValue || !filterOption) return parentFilteredOptions;
     return parentFilteredOptions.filter((opt) => filterOption(opt, searchValue));
-  }, [parentFilteredOptions, searchable, searchValue, filterOption]);
+  }, [searchMatches, parentFilteredOptions, searchable, searchValue, filterOption]);
+
+  // Highlight ranges by option value
+  const matchesByValue = useMemo(
+    () => new Map((searchMatches ?? []).map((match) => [match.option.value, match])),
+    [searchMatches],
+  );
+
+  const getHighlights = useCallback(
+    (val: string | number, key = 'label') =>
+      matchesByValue.get(val)?.ranges[key] ?? EMPTY_RANGES,
+    [matchesByValue],
+  );
 
   // Build options lookup
   const optionsLookup = useMemo(() => {
@@ -401,7 +512,9 @@ export function StaticWrapper<TMeta = unknown>({
   }, []);
 
   const isDisabled = disabledProp || isDisabledByParent;
-  const isLoadingState = fetchOptions ? isLoading : false;
+  const isLoadingState =
+    (fetchOptions ? isLoading : false) || (worker && workerSearch.matches === null);
+  const virtualConfig = resolveVirtualConfig(virtual);
 
   const injectedProps: StaticInjectedProps<TMeta> = {
     value,
@@ -413,10 +526,12 @@ export function StaticWrapper<TMeta = unknown>({
     error: error ?? null,
     searchValue,
     onSearch: handleSearch,
+    getHighlights,
     disabled: isDisabled,
     parentValue,
     getOption,
     groupedOptions,
+    virtual: virtualConfig,
   };
 
   if (typeof children === 'function') {
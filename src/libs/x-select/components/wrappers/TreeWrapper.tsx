@@ -0,0 +1,155 @@
+/**
+ * TreeWrapper - Field Chain as One TreeSelect
+ *
+ * Shows a `dependsOn` chain (country → province → city) as a single
+ * TreeSelect. Injects props into children (value, onChange, treeData, loadData).
+ *
+ * Features:
+ * - Same configs as separate `XSelect.Dependent` selects
+ * - Any level can be selected; deeper fields are cleared
+ * - Async levels lazy-load through the fields' `options` loaders
+ *
+ * NOTE: Node values are the JSON-encoded path (values of different levels
+ * may collide); `onChange` decodes them back to field values.
+ *
+ * @example
+ * ```tsx
+ * <XSelect.Tree name="city">
+ *   <TreeSelect placeholder="Location" allowClear />
+ * </XSelect.Tree>
+ * ```
+ */
+
+import React, { isValidElement, useCallback, useMemo } from 'react';
+import type { ReactElement, ReactNode } from 'react';
+
+import { useXSelectStore } from '../../contexts';
+import { useXSelectHierarchy } from '../../hooks';
+import type { HierarchyNode, HierarchyValue } from '../../hooks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Tree node (antd `TreeSelect` shape).
+ */
+export interface TreeOption {
+  /** JSON-encoded path */
+  value: string;
+  title: string;
+  disabled?: boolean;
+  isLeaf: boolean;
+  children?: TreeOption[];
+}
+
+/**
+ * Props injected into children.
+ */
+export interface TreeInjectedProps {
+  /** Selected node (JSON-encoded path) */
+  value?: string;
+
+  /** Change handler (undefined clears the chain) */
+  onChange: (value?: string | null) => void;
+
+  /** Nested nodes */
+  treeData: TreeOption[];
+
+  /** Lazy-load children of a node */
+  loadData: (node: { value?: unknown }) => Promise<void>;
+
+  /** Root options loading */
+  loading: boolean;
+
+  /** Disabled state */
+  disabled?: boolean;
+}
+
+/**
+ * Props for TreeWrapper.
+ */
+export interface TreeWrapperProps {
+  /** Leaf field - the chain follows its `dependsOn` links */
+  name?: string;
+
+  /** Explicit chain, root first (instead of `name`) */
+  fields?: string[];
+
+  /** Disabled state */
+  disabled?: boolean;
+
+  /** Children - ReactElement or render function */
+  children: ReactElement | ((props: TreeInjectedProps) => ReactNode);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toTreeOptions(nodes: HierarchyNode[]): TreeOption[] {
+  return nodes.map((node) => ({
+    value: JSON.stringify(node.path),
+    title: node.label,
+    disabled: node.disabled,
+    isLeaf: node.isLeaf || node.children?.length === 0,
+    children: node.children && toTreeOptions(node.children),
+  }));
+}
+
+function parsePath(value: unknown): HierarchyValue[] {
+  if (typeof value !== 'string') return [];
+  try {
+    const path = JSON.parse(value);
+    return Array.isArray(path) ? path : [];
+  } catch {
+    return [];
+  }
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function TreeWrapper({ name, fields, disabled, children }: TreeWrapperProps) {
+  const store = useXSelectStore();
+  const hierarchy = useXSelectHierarchy(store, fields ?? name ?? []);
+  const { nodes, loadChildren, onChange: setPath } = hierarchy;
+
+  const treeData = useMemo(() => toTreeOptions(nodes), [nodes]);
+
+  const onChange = useCallback(
+    (value?: string | null) => setPath(parsePath(value)),
+    [setPath],
+  );
+
+  const loadData = useCallback(
+    (node: { value?: unknown }) => loadChildren(parsePath(node.value)),
+    [loadChildren],
+  );
+
+  const injectedProps: TreeInjectedProps = {
+    value: hierarchy.value.length > 0 ? JSON.stringify(hierarchy.value) : undefined,
+    onChange,
+    treeData,
+    loadData,
+    loading: hierarchy.loading,
+    disabled,
+  };
+
+  if (typeof children === 'function') {
+    return <>{children(injectedProps)}</>;
+  }
+
+  if (isValidElement(children)) {
+    const childProps = children.props as Partial<TreeInjectedProps>;
+    return React.cloneElement(children as ReactElement<TreeInjectedProps>, {
+      ...injectedProps,
+      disabled: childProps.disabled ?? injectedProps.disabled,
+    });
+  }
+
+  return children;
+}
+
+export default TreeWrapper;
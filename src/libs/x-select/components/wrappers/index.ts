@@ -15,13 +15,29 @@ export type { InfiniteWrapperProps, InfiniteInjectedProps } from './InfiniteWrap
 export { StaticWrapper } from './StaticWrapper';
 export type { StaticWrapperProps, StaticInjectedProps, StaticOption } from './StaticWrapper';
 
+export { FieldWrapper } from './FieldWrapper';
+export type { FieldWrapperProps } from './FieldWrapper';
+
+export { CascaderWrapper } from './CascaderWrapper';
+export type {
+  CascaderWrapperProps,
+  CascaderInjectedProps,
+  CascaderOption,
+} from './CascaderWrapper';
+
+export { TreeWrapper } from './TreeWrapper';
+export type { TreeWrapperProps, TreeInjectedProps, TreeOption } from './TreeWrapper';
+
 // ============================================================================
 // COMPOUND COMPONENT
 // ============================================================================
 
+import { CascaderWrapper } from './CascaderWrapper';
 import { DependentWrapper } from './DependentWrapper';
+import { FieldWrapper } from './FieldWrapper';
 import { InfiniteWrapper } from './InfiniteWrapper';
 import { StaticWrapper } from './StaticWrapper';
+import { TreeWrapper } from './TreeWrapper';
 
 /**
  * XSelect compound component.
@@ -43,9 +59,28 @@ import { StaticWrapper } from './StaticWrapper';
  *   </XSelect.Static>
  * </XSelect.Dependent>
  * ```
+ *
+ * @example Field registered at runtime
+ * ```tsx
+ * <XSelect.Field config={{ name: 'task', dependsOn: 'project', options: loadTasks }}>
+ *   <XSelect.Dependent name="task">
+ *     <Select />
+ *   </XSelect.Dependent>
+ * </XSelect.Field>
+ * ```
+ *
+ * @example Field chain as one Cascader
+ * ```tsx
+ * <XSelect.Cascader name="city">
+ *   <Cascader changeOnSelect />
+ * </XSelect.Cascader>
+ * ```
  */
 export const XSelect = {
   Dependent: DependentWrapper,
   Infinite: InfiniteWrapper,
   Static: StaticWrapper,
+  Field: FieldWrapper,
+  Cascader: CascaderWrapper,
+  Tree: TreeWrapper,
 };
\ No newline at end of file
@@ -13,6 +13,8 @@
  * - useXSelectActions: Get stable action functions
  * - useXSelectConfig: Get config for a field
  * - useXSelectValues: Get all values
+ * - useXSelectEvent: Listen to typed store events
+ * - useXSelectHistory: Reactive undo/redo state
  */
 
 import {
@@ -25,14 +27,22 @@ import {
   useRef,
   useSyncExternalStore,
 } from 'react';
+import type { QueryClient } from '@tanstack/react-query';
 import type { ReactNode } from 'react';
 
+import { useXSelectPersistence, useXSelectUrlSync } from '../hooks';
+import type { UrlSyncOptions } from '../hooks';
 import { XSelectStore } from '../store';
 import type {
   FieldConfig,
   FieldSnapshot,
   FieldValues,
   FormAdapter,
+  HistoryState,
+  OptionsCacheConfig,
+  PersistenceOptions,
+  StoreEventListener,
+  StoreEventType,
   XSelectOption,
 } from '../types';
 
@@ -54,6 +64,22 @@ interface ActionsContextValue {
   setExternalOptions: (fieldName: string, options: XSelectOption[]) => void;
   getValue: (fieldName: string) => unknown;
   getValues: () => FieldValues;
+  validate: () => Promise<Record<string, string[]>>;
+  validateField: (fieldName: string) => Promise<string[]>;
+  retryOptions: (fieldName: string) => Promise<void>;
+  invalidateOptions: (fieldName: string, parentValue?: unknown) => Promise<void>;
+  refreshOptions: (fieldName?: string) => Promise<void>;
+  reset: (fieldNames?: string[]) => void;
+  clear: () => void;
+  registerField: (config: FieldConfig) => void;
+  unregisterField: (fieldName: string, options?: { clearValue?: boolean }) => void;
+  addRow: (arrayName: string, values?: FieldValues) => number;
+  removeRow: (arrayName: string, index: number) => void;
+  moveRow: (arrayName: string, from: number, to: number) => void;
+  undo: () => boolean;
+  redo: () => boolean;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
 }
 
 const ActionsContext = createContext<ActionsContextValue | null>(null);
@@ -92,6 +118,30 @@ export interface XSelectProviderProps {
   /** Controlled values */
   value?: FieldValues;
 
+  /** Max undo steps (default: 50, 0 = disabled) */
+  historyLimit?: number;
+
+  /**
+   * Opt-in two-way sync of selected values with the URL query string.
+   * `true` syncs all fields with replace semantics.
+   */
+  urlSync?: boolean | UrlSyncOptions;
+
+  /**
+   * Opt-in persistence (remember last selection).
+   * Restores into empty fields only; writes are debounced.
+   */
+  persistence?: PersistenceOptions;
+
+  /** Default async options cache settings (TTL, LRU size) */
+  optionsCache?: Omit<OptionsCacheConfig, 'queryKey'>;
+
+  /** React Query client invalidated together with the options cache */
+  queryClient?: QueryClient;
+
+  /** Allow `dependsOn` parents declared later by `XSelect.Field` (default: false) */
+  allowPendingParents?: boolean;
+
   /** React children */
   children: ReactNode;
 }
@@ -116,6 +166,22 @@ const InternalProvider = memo(function InternalProvider({
       setExternalOptions: store.setExternalOptions,
       getValue: (fieldName: string) => store.getFieldSnapshot(fieldName).value,
       getValues: store.getValues,
+      validate: store.validate,
+      validateField: store.validateField,
+      retryOptions: store.retryOptions,
+      invalidateOptions: store.invalidateOptions,
+      refreshOptions: store.refreshOptions,
+      reset: store.reset,
+      clear: store.clear,
+      registerField: store.registerField,
+      unregisterField: store.unregisterField,
+      addRow: store.addRow,
+      removeRow: store.removeRow,
+      moveRow: store.moveRow,
+      undo: store.undo,
+      redo: store.redo,
+      canUndo: store.canUndo,
+      canRedo: store.canRedo,
     }),
     [store],
   );
@@ -165,6 +231,12 @@ export function XSelectProvider({
   adapter,
   initialValues,
   value: controlledValue,
+  historyLimit,
+  urlSync,
+  persistence,
+  optionsCache,
+  queryClient,
+  allowPendingParents,
   children,
 }: XSelectProviderProps) {
   // Create stable key from config names
@@ -173,13 +245,15 @@ export function XSelectProvider({
     [configs],
   );
 
-  // Create store instance
+  // Create store instance - without the adapter: connecting writes to the form
+  // and subscribes to it, which must not happen in a render React may discard
   const store = useMemo(
     () =>
       new XSelectStore(
         configs,
         controlledValue ?? initialValues ?? {},
-        adapter,
+        undefined,
+        { historyLimit, optionsCache, queryClient, allowPendingParents },
       ),
     // eslint-disable-next-line react-hooks/exhaustive-deps
     [configsKey],
@@ -197,11 +271,17 @@ export function XSelectProvider({
     }
   }, [controlledValue, store]);
 
-  // Update adapter
+  // Connect / replace adapter
   useEffect(() => {
     store.setAdapter(adapter);
   }, [adapter, store]);
 
+  // URL query-string sync (opt-in)
+  useXSelectUrlSync(store, urlSync);
+
+  // Persistence (opt-in)
+  useXSelectPersistence(store, persistence);
+
   return <InternalProvider store={store}>{children}</InternalProvider>;
 }
 
@@ -243,6 +323,50 @@ export function useXSelectActions(): ActionsContextValue {
   return actions;
 }
 
+/**
+ * Subscribe to undo/redo availability.
+ *
+ * @example
+ * ```tsx
+ * function UndoButtons() {
+ *   const { canUndo, canRedo, undo, redo } = useXSelectHistory();
+ *
+ *   useEffect(() => {
+ *     const onKeyDown = (e: KeyboardEvent) => {
+ *       if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
+ *         e.preventDefault();
+ *         if (e.shiftKey) redo();
+ *         else undo();
+ *       }
+ *     };
+ *     window.addEventListener('keydown', onKeyDown);
+ *     return () => window.removeEventListener('keydown', onKeyDown);
+ *   }, [undo, redo]);
+ *
+ *   return <Button disabled={!canUndo} onClick={undo}>Undo</Button>;
+ * }
+ * ```
+ */
+export function useXSelectHistory(): HistoryState & {
+  undo: () => boolean;
+  redo: () => boolean;
+} {
+  const store = useXSelectStore();
+
+  const historyState = useSyncExternalStore(
+    store.subscribeHistory,
+    store.getHistoryState,
+    store.getHistoryState,
+  );
+
+  return {
+    canUndo: historyState.canUndo,
+    canRedo: historyState.canRedo,
+    undo: store.undo,
+    redo: store.redo,
+  };
+}
+
 /**
  * Get config access functions.
  */
@@ -284,9 +408,36 @@ export interface UseXSelectFieldResult {
   /** Loading state */
   isLoading: boolean;
 
+  /** Async options load error */
+  optionsError: Error | null;
+
+  /** Reload async options (e.g. after `optionsError`) */
+  retryOptions: () => Promise<void>;
+
   /** Disabled by parent */
   isDisabledByParent: boolean;
 
+  /** Read-only computed field (value set by `compute` only) */
+  isReadOnly: boolean;
+
+  /** Hidden by `visibleWhen` */
+  isHidden: boolean;
+
+  /** Disabled by `disabledWhen` */
+  isDisabledByRule: boolean;
+
+  /** Validation errors (show when `touched`) */
+  errors: readonly string[];
+
+  /** Async validator in progress */
+  isValidating: boolean;
+
+  /** Field was changed by the user or validated on submit */
+  touched: boolean;
+
+  /** Value differs from the initial value */
+  dirty: boolean;
+
   /** Change handler */
   onChange: (value: unknown) => void;
 }
@@ -336,17 +487,15 @@ export function useXSelectField(
     getFieldSnapshot,
   );
 
-  // Get config
-  const fieldConfig = useMemo(
-    () => store.getConfig(fieldName),
-    [store, fieldName],
-  );
+  // Get config (not memoized - fields may be registered at runtime)
+  const fieldConfig = store.getConfig(fieldName);
 
   // Get filtered options
   const filteredOptions = useMemo(() => {
     const options = store.getOptions(fieldName, externalOptions);
     return options.length > 0 ? options : EMPTY_OPTIONS;
-  }, [store, fieldName, fieldSnapshot.parentValue, externalOptions]);
+    // isLoading: async options land when loading ends
+  }, [store, fieldName, fieldSnapshot.parentValue, fieldSnapshot.isLoading, externalOptions]);
 
   // Check if disabled by parent
   const isDisabledByParent = useMemo(() => {
@@ -383,6 +532,12 @@ export function useXSelectField(
     [store, fieldName],
   );
 
+  // Retry handler
+  const handleRetryOptions = useCallback(
+    () => store.retryOptions(fieldName),
+    [store, fieldName],
+  );
+
   // Sync external options
   const previousOptionsRef = useRef<XSelectOption[] | undefined>(undefined);
   if (externalOptions !== previousOptionsRef.current) {
@@ -399,7 +554,16 @@ export function useXSelectField(
     parentValue: fieldSnapshot.parentValue,
     parentValues: fieldSnapshot.parentValues,
     isLoading: fieldSnapshot.isLoading,
+    optionsError: fieldSnapshot.optionsError,
+    retryOptions: handleRetryOptions,
     isDisabledByParent,
+    isReadOnly: !!fieldConfig?.compute && fieldConfig.computeMode !== 'overridable',
+    isHidden: fieldSnapshot.isHidden,
+    isDisabledByRule: fieldSnapshot.isDisabledByRule,
+    errors: fieldSnapshot.errors,
+    isValidating: fieldSnapshot.isValidating,
+    touched: fieldSnapshot.touched,
+    dirty: fieldSnapshot.dirty,
     onChange: handleChange,
   };
 }
@@ -482,6 +646,68 @@ export function useXSelectParentValue(fieldName: string): unknown {
   return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 }
 
+// ============================================================================
+// HOOKS - Field Arrays
+// ============================================================================
+
+export interface UseXSelectFieldArrayResult {
+  /** Stable row keys (use as React keys), in row order */
+  rowKeys: readonly number[];
+
+  /** Concrete row field name (`fieldName(0, 'project')` → `items[0].project`) */
+  fieldName: (index: number, field: string) => string;
+
+  /** Append a row, values keyed by template field */
+  addRow: (values?: FieldValues) => number;
+
+  /** Remove a row (later rows shift up) */
+  removeRow: (index: number) => void;
+
+  /** Move a row */
+  moveRow: (from: number, to: number) => void;
+}
+
+/**
+ * Rows of a field array declared with `items[].field` configs.
+ *
+ * @example
+ * ```tsx
+ * const { rowKeys, fieldName, addRow, removeRow } = useXSelectFieldArray('items');
+ *
+ * {rowKeys.map((key, index) => (
+ *   <Space key={key}>
+ *     <XSelect.Dependent name={fieldName(index, 'member')}><Select /></XSelect.Dependent>
+ *     <XSelect.Dependent name={fieldName(index, 'project')}><Select /></XSelect.Dependent>
+ *     <Button onClick={() => removeRow(index)}>Remove</Button>
+ *   </Space>
+ * ))}
+ * <Button onClick={() => addRow()}>Add row</Button>
+ * ```
+ */
+export function useXSelectFieldArray(arrayName: string): UseXSelectFieldArrayResult {
+  const store = useXSelectStore();
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => store.onField(arrayName, 'rows:change', onStoreChange),
+    [store, arrayName],
+  );
+
+  const getSnapshot = useCallback(() => store.getRowKeys(arrayName), [store, arrayName]);
+
+  const rowKeys = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  return useMemo(
+    () => ({
+      rowKeys,
+      fieldName: (index: number, field: string) => `${arrayName}[${index}].${field}`,
+      addRow: (values?: FieldValues) => store.addRow(arrayName, values),
+      removeRow: (index: number) => store.removeRow(arrayName, index),
+      moveRow: (from: number, to: number) => store.moveRow(arrayName, from, to),
+    }),
+    [store, arrayName, rowKeys],
+  );
+}
+
 // ============================================================================
 // HOOKS - All Values
 // ============================================================================
@@ -515,6 +741,46 @@ export function useXSelectValues(): FieldValues {
   );
 }
 
+// ============================================================================
+// HOOKS - Events
+// ============================================================================
+
+/**
+ * Listen to a typed store event.
+ * Pass `fieldName` to only receive events for that field.
+ * The listener may change between renders without re-subscribing.
+ *
+ * @example
+ * ```tsx
+ * useXSelectEvent('cascade:delete', ({ affectedFields }) => {
+ *   message.info(`Cleared ${affectedFields.length} dependent fields`);
+ * });
+ *
+ * useXSelectEvent('value:change', ({ previousValue, newValue }) => {
+ *   audit.log('country', previousValue, newValue);
+ * }, 'country');
+ * ```
+ */
+export function useXSelectEvent<TEvent extends StoreEventType>(
+  event: TEvent,
+  listener: StoreEventListener<TEvent>,
+  fieldName?: string,
+): void {
+  const store = useXSelectStore();
+
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    const handler: StoreEventListener<TEvent> = (payload) =>
+      listenerRef.current(payload);
+
+    return fieldName
+      ? store.onField(fieldName, event, handler)
+      : store.on(event, handler);
+  }, [store, event, fieldName]);
+}
+
 // ============================================================================
 // CONTEXT EXPORTS (for advanced usage)
 // ============================================================================
@@ -9,12 +9,15 @@ export {
   useXSelectStore,
   useXSelectStoreOptional,
   useXSelectActions,
+  useXSelectHistory,
   useXSelectConfig,
   useXSelectField,
   useXSelectValue,
   useXSelectLoading,
   useXSelectParentValue,
   useXSelectValues,
+  useXSelectFieldArray,
+  useXSelectEvent,
   // Context (for advanced usage)
   XSelectStoreContext,
 } from './XSelectContext';
@@ -23,4 +26,5 @@ export type {
   XSelectProviderProps,
   UseXSelectFieldOptions,
   UseXSelectFieldResult,
+  UseXSelectFieldArrayResult,
 } from './XSelectContext';
\ No newline at end of file
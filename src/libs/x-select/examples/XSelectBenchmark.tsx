@@ -0,0 +1,201 @@
+/**
+ * XSelect Benchmark - Very Large Option Sets
+ *
+ * Features:
+ * - Generated Province → Postal code data (5k - 100k postal codes)
+ * - Main thread vs. worker timings for parent filtering + search
+ * - Postal code select with `worker` (DependentWrapper)
+ * - Standalone StaticWrapper over the full set (worker search, highlights off)
+ */
+
+import { Button, Card, Form, Radio, Select, Space, Statistic, Typography } from 'antd';
+import { useEffect, useMemo, useState } from 'react';
+
+import {
+  XSelectProvider,
+  XSelect,
+  createOptionsSearchWorker,
+  createSearchMatcher,
+  filterOptionsByParent,
+  formatOptions,
+  clearCaches,
+} from '../index';
+import type { FieldConfig, XSelectOption } from '../index';
+
+const { Title, Text } = Typography;
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+const PROVINCE_COUNT = 60;
+const DATASET_SIZES = [5_000, 20_000, 50_000, 100_000];
+const BENCHMARK_QUERY = 'quan 1';
+
+const provinceOptions: XSelectOption[] = Array.from(
+  { length: PROVINCE_COUNT },
+  (_, i) => ({ label: `Tỉnh ${i + 1}`, value: `province-${i + 1}` }),
+);
+
+function generatePostalCodes(count: number): XSelectOption[] {
+  return Array.from({ length: count }, (_, i) => ({
+    label: `${String(10000 + i)} - Phường ${(i % 30) + 1}, Quận ${(i % 12) + 1}`,
+    value: 10000 + i,
+    parentValue: `province-${(i % PROVINCE_COUNT) + 1}`,
+  }));
+}
+
+// ============================================================================
+// TIMINGS
+// ============================================================================
+
+interface Timings {
+  mainFilter: number;
+  mainSearch: number;
+  workerFilter: number;
+  workerSearch: number;
+}
+
+function measure(run: () => void): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+async function measureAsync(run: () => Promise<unknown>): Promise<number> {
+  const start = performance.now();
+  await run();
+  return performance.now() - start;
+}
+
+async function runBenchmark(options: XSelectOption[]): Promise<Timings> {
+  const parentValue = 'province-1';
+
+  // Main thread - what a sync snapshot change costs (caches cleared)
+  clearCaches();
+  const mainFilter = measure(() =>
+    formatOptions(filterOptionsByParent(options, parentValue)),
+  );
+  const matcher = createSearchMatcher();
+  const mainSearch = measure(() => matcher.search(options, BENCHMARK_QUERY));
+
+  // Worker - measured as latency; the main thread stays free meanwhile
+  const worker = createOptionsSearchWorker();
+  worker.load(options);
+  try {
+    const workerFilter = await measureAsync(() =>
+      worker.query({ filterByParent: true, parentValue, query: '' }),
+    );
+    const workerSearch = await measureAsync(() =>
+      worker.query({ filterByParent: false, query: BENCHMARK_QUERY }),
+    );
+    return { mainFilter, mainSearch, workerFilter, workerSearch };
+  } finally {
+    worker.terminate();
+  }
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function XSelectBenchmark() {
+  const [size, setSize] = useState(20_000);
+  const [timings, setTimings] = useState<Timings | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const postalCodes = useMemo(() => generatePostalCodes(size), [size]);
+
+  const configs = useMemo<FieldConfig[]>(
+    () => [
+      { name: 'province', options: provinceOptions, placeholder: 'Select province' },
+      {
+        name: 'postalCode',
+        dependsOn: 'province',
+        options: postalCodes,
+        placeholder: 'Select postal code',
+      },
+    ],
+    [postalCodes],
+  );
+
+  useEffect(() => {
+    setTimings(null);
+  }, [postalCodes]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setTimings(await runBenchmark(postalCodes));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const formatMs = (ms: number | undefined) => (ms === undefined ? '-' : ms.toFixed(1));
+
+  return (
+    <Card>
+      <Title level={4}>XSelect Benchmark - Large Option Sets</Title>
+      <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+        Province → Postal code with generated data. The postal code select filters and
+        searches in a Web Worker; antd renders it through its virtual list.
+      </Text>
+
+      <Space direction="vertical" size="large" style={{ width: '100%' }}>
+        <Space wrap>
+          <Radio.Group
+            value={size}
+            onChange={(event) => setSize(event.target.value)}
+            optionType="button"
+            options={DATASET_SIZES.map((value) => ({
+              label: value.toLocaleString(),
+              value,
+            }))}
+          />
+          <Button type="primary" loading={isRunning} onClick={handleRun}>
+            Run benchmark
+          </Button>
+        </Space>
+
+        <Space size="large" wrap>
+          <Statistic
+            title="Main: filter + format (ms)"
+            value={formatMs(timings?.mainFilter)}
+          />
+          <Statistic
+            title={`Main: search "${BENCHMARK_QUERY}" (ms)`}
+            value={formatMs(timings?.mainSearch)}
+          />
+          <Statistic title="Worker: filter (ms)" value={formatMs(timings?.workerFilter)} />
+          <Statistic title="Worker: search (ms)" value={formatMs(timings?.workerSearch)} />
+        </Space>
+
+        {/* Remount on dataset change - configs are read once by the store */}
+        <XSelectProvider key={size} configs={configs}>
+          <Form layout="vertical" style={{ maxWidth: 480 }}>
+            <Form.Item label="Province">
+              <XSelect.Dependent name="province">
+                <Select allowClear showSearch optionFilterProp="label" />
+              </XSelect.Dependent>
+            </Form.Item>
+
+            <Form.Item label="Postal code (worker)">
+              <XSelect.Dependent name="postalCode" worker>
+                <Select allowClear />
+              </XSelect.Dependent>
+            </Form.Item>
+
+            <Form.Item label="All postal codes (StaticWrapper, worker)">
+              <XSelect.Static options={postalCodes} worker>
+                <Select placeholder="Search all postal codes" />
+              </XSelect.Static>
+            </Form.Item>
+          </Form>
+        </XSelectProvider>
+      </Space>
+    </Card>
+  );
+}
+
+export default XSelectBenchmark;
@@ -6,15 +6,28 @@
  * - All selects use infinite scroll
  * - Comment select demonstrates MULTIPLE parent dependencies (userIds AND taskIds)
  * - Selections are saved to database and restored on page load
+ * - Restored selections whose rows were deleted are removed with a warning
+ * - "Select all N matching" on tasks, expanded to ids (comments filter by them)
  * - Uses XSelect compound components
+ * - Undo/redo (Ctrl+Z / Ctrl+Shift+Z) restores cascaded selections
  */
 
 import { useQuery, useMutation, useQueryClient } from '@umijs/max';
 import { Button, Card, Form, message, Select, Space, Spin, Tag, Typography } from 'antd';
 import { useEffect, useMemo } from 'react';
 
-import { XSelectProvider, XSelect, ErrorDisplay, XSelectErrorBoundary } from '../index';
-import type { FieldConfig, FormAdapter, FetchRequest, FetchResponse, StaticOption } from '../index';
+import { createOptionsSource } from '@/services/options';
+
+import {
+  XSelectProvider,
+  XSelect,
+  ErrorDisplay,
+  XSelectErrorBoundary,
+  useXSelectActions,
+  useXSelectHistory,
+  createAntdAdapter,
+} from '../index';
+import type { FieldConfig, StaticOption } from '../index';
 
 const { Title, Text } = Typography;
 
@@ -70,244 +83,27 @@ interface Selections {
 }
 
 // ============================================================================
-// Cursor Cache - Track cursors for page-based to cursor-based conversion
-// ============================================================================
-
-const cursorCache = new Map<string, Map<number, string>>();
-
-function getCursorCache(key: string): Map<number, string> {
-  if (!cursorCache.has(key)) {
-    cursorCache.set(key, new Map());
-  }
-  return cursorCache.get(key)!;
-}
-
-// ============================================================================
-// API Functions - Using v2 cursor-based APIs
+// Option Sources - v2 `/api/v2/<entity>/options` APIs (cursor pagination)
 // ============================================================================
 
-/**
- * Fetch users with cursor pagination
- * NOTE: First 2 calls will fail if SIMULATE_ERROR is true (to demo Error Recovery)
- */
-async function fetchUsers(request: FetchRequest): Promise<FetchResponse<User>> {
-  // Simulate error for first 2 requests to demo Error Recovery UI
-  const { current, pageSize, search } = request;
-  const cacheKey = `users-${search || ''}`;
-  const cursors = getCursorCache(cacheKey);
-  const cursor = current > 1 ? cursors.get(current - 1) : undefined;
-
-  const params = new URLSearchParams({ limit: String(pageSize) });
-  if (cursor) params.set('cursor', cursor);
-  if (search) params.set('keyword', search);
-
-  const res = await fetch(`/api/v2/users/options?${params}`);
-  const data = await res.json();
-
-  if (res.ok) {
-    if (data.pageInfo?.endCursor) {
-      cursors.set(current, data.pageInfo.endCursor);
-    }
-
-    return {
-      data: data.data || [],
-      total: data.pageInfo?.total,
-      hasMore: data.pageInfo?.hasNextPage ?? false,
-    };
-  }
-
-  return data;
-}
-
-/**
- * Fetch users by IDs (hydration)
- */
-async function fetchUsersByIds(ids: Array<string | number>): Promise<User[]> {
-  if (!ids.length) return [];
-  const res = await fetch(`/api/v2/users/options?ids=${ids.join(',')}`);
-  const data = await res.json();
-  return data.data || [];
-}
-
-/**
- * Fetch projects with cursor pagination
- */
-async function fetchProjects(request: FetchRequest): Promise<FetchResponse<Project>> {
-  const { current, pageSize, parentValue, search } = request;
-
-  const userIds = Array.isArray(parentValue) ? parentValue : parentValue ? [parentValue] : [];
-  if (!userIds.length) return { data: [], hasMore: false };
-
-  // Pass all userIds as comma-separated string
-  const userIdsStr = userIds.join(',');
-  const cacheKey = `projects-${userIdsStr}-${search || ''}`;
-  const cursors = getCursorCache(cacheKey);
-  const cursor = current > 1 ? cursors.get(current - 1) : undefined;
-
-  const params = new URLSearchParams({
-    limit: String(pageSize),
-    parentField: 'memberId',
-    parentValue: userIdsStr,
-  });
-  if (cursor) params.set('cursor', cursor);
-  if (search) params.set('keyword', search);
-
-  const res = await fetch(`/api/v2/projects/options?${params}`);
-  const data = await res.json();
-
-  if (data.pageInfo?.endCursor) {
-    cursors.set(current, data.pageInfo.endCursor);
-  }
-
-  return {
-    data: data.data || [],
-    total: data.pageInfo?.total,
-    hasMore: data.pageInfo?.hasNextPage ?? false,
-  };
-}
-
-/**
- * Fetch projects by IDs (hydration)
- */
-async function fetchProjectsByIds(ids: Array<string | number>): Promise<Project[]> {
-  if (!ids.length) return [];
-  const res = await fetch(`/api/v2/projects/options?ids=${ids.join(',')}`);
-  const data = await res.json();
-  return data.data || [];
-}
-
-/**
- * Fetch tasks with cursor pagination
- */
-async function fetchTasks(request: FetchRequest): Promise<FetchResponse<Task>> {
-  const { current, pageSize, parentValue, search } = request;
-
-  const projectIds = Array.isArray(parentValue) ? parentValue : parentValue ? [parentValue] : [];
-  if (!projectIds.length) return { data: [], hasMore: false };
-
-  // Pass all projectIds as comma-separated string
-  const projectIdsStr = projectIds.join(',');
-  const cacheKey = `tasks-${projectIdsStr}-${search || ''}`;
-  const cursors = getCursorCache(cacheKey);
-  const cursor = current > 1 ? cursors.get(current - 1) : undefined;
-
-  const params = new URLSearchParams({
-    limit: String(pageSize),
-    parentField: 'projectId',
-    parentValue: projectIdsStr,
-  });
-  if (cursor) params.set('cursor', cursor);
-  if (search) params.set('keyword', search);
-
-  const res = await fetch(`/api/v2/tasks/options?${params}`);
-  const data = await res.json();
-
-  if (data.pageInfo?.endCursor) {
-    cursors.set(current, data.pageInfo.endCursor);
-  }
-
-  return {
-    data: data.data || [],
-    total: data.pageInfo?.total,
-    hasMore: data.pageInfo?.hasNextPage ?? false,
-  };
-}
-
-/**
- * Fetch tasks by IDs (hydration)
- */
-async function fetchTasksByIds(ids: Array<string | number>): Promise<Task[]> {
-  if (!ids.length) return [];
-  const res = await fetch(`/api/v2/tasks/options?ids=${ids.join(',')}`);
-  const data = await res.json();
-  return data.data || [];
-}
-
-/**
- * Fetch filters with cursor pagination (no dependency)
- */
-async function fetchFilters(request: FetchRequest): Promise<FetchResponse<Filter>> {
-  const { current, pageSize, search } = request;
-  const cacheKey = `filters-${search || ''}`;
-  const cursors = getCursorCache(cacheKey);
-  const cursor = current > 1 ? cursors.get(current - 1) : undefined;
-
-  const params = new URLSearchParams({ limit: String(pageSize) });
-  if (cursor) params.set('cursor', cursor);
-  if (search) params.set('keyword', search);
-
-  const res = await fetch(`/api/v2/filters/options?${params}`);
-  const data = await res.json();
-
-  if (data.pageInfo?.endCursor) {
-    cursors.set(current, data.pageInfo.endCursor);
-  }
+const userSource = createOptionsSource({ entity: 'users' });
+const projectSource = createOptionsSource({ entity: 'projects', parentField: 'memberId' });
+const taskSource = createOptionsSource({ entity: 'tasks', parentField: 'projectId' });
+const filterSource = createOptionsSource({ entity: 'filters' });
 
-  return {
-    data: data.data || [],
-    total: data.pageInfo?.total,
-    hasMore: data.pageInfo?.hasNextPage ?? false,
-  };
-}
+// Multiple parent dependencies: parentValue is { userIds: [...], taskIds: [...] }
+const commentSource = createOptionsSource({
+  entity: 'comments',
+  parentField: { userIds: 'authorId', taskIds: 'taskId' },
+});
 
 /**
- * Fetch filters by IDs (hydration)
+ * Saved selections may reference deleted rows - they are removed on hydration
  */
-async function fetchFiltersByIds(ids: Array<string | number>): Promise<Filter[]> {
-  if (!ids.length) return [];
-  const res = await fetch(`/api/v2/filters/options?ids=${ids.join(',')}`);
-  const data = await res.json();
-  return data.data || [];
-}
-
-/**
- * Fetch comments with cursor pagination (depends on userIds AND taskIds)
- */
-async function fetchComments(request: FetchRequest): Promise<FetchResponse<Comment>> {
-  const { current, pageSize, parentValue, search } = request;
-
-  // parentValue is an object { userIds: [...], taskIds: [...] } for multiple dependencies
-  const parents = parentValue as { userIds?: number[]; taskIds?: number[] } | undefined;
-  const userIds = parents?.userIds || [];
-  const taskIds = parents?.taskIds || [];
-
-  // Need at least one parent to have values
-  if (!userIds.length && !taskIds.length) {
-    return { data: [], hasMore: false };
-  }
-
-  const cacheKey = `comments-${userIds.join(',')}-${taskIds.join(',')}-${search || ''}`;
-  const cursors = getCursorCache(cacheKey);
-  const cursor = current > 1 ? cursors.get(current - 1) : undefined;
-
-  const params = new URLSearchParams({ limit: String(pageSize) });
-  if (userIds.length) params.set('authorId', userIds.join(','));
-  if (taskIds.length) params.set('taskId', taskIds.join(','));
-  if (cursor) params.set('cursor', cursor);
-  if (search) params.set('keyword', search);
-
-  const res = await fetch(`/api/v2/comments/options?${params}`);
-  const data = await res.json();
-
-  if (data.pageInfo?.endCursor) {
-    cursors.set(current, data.pageInfo.endCursor);
-  }
-
-  return {
-    data: data.data || [],
-    total: data.pageInfo?.total,
-    hasMore: data.pageInfo?.hasNextPage ?? false,
-  };
-}
-
-/**
- * Fetch comments by IDs (hydration)
- */
-async function fetchCommentsByIds(ids: Array<string | number>): Promise<Comment[]> {
-  if (!ids.length) return [];
-  const res = await fetch(`/api/v2/comments/options?ids=${ids.join(',')}`);
-  const data = await res.json();
-  return data.data || [];
+function warnRemovedSelections(values: Array<string | number>) {
+  message.warning(
+    `Removed ${values.length} unavailable saved selection(s): ${values.join(', ')}`,
+  );
 }
 
 /**
@@ -430,6 +226,61 @@ const fieldConfigs: FieldConfig[] = [
   },
 ];
 
+// ============================================================================
+// Undo / Redo
+// ============================================================================
+
+/**
+ * Undo/redo buttons + Ctrl+Z / Ctrl+Shift+Z while focus is inside the form.
+ */
+function HistoryActions() {
+  const { canUndo, canRedo, undo, redo } = useXSelectHistory();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (!(e.target as HTMLElement | null)?.closest?.('.x-select-demo-form')) return;
+
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  return (
+    <>
+      <Button onClick={undo} disabled={!canUndo}>
+        Undo
+      </Button>
+      <Button onClick={redo} disabled={!canRedo}>
+        Redo
+      </Button>
+    </>
+  );
+}
+
+// ============================================================================
+// Reset / Clear
+// ============================================================================
+
+/**
+ * Reset/clear through the store so the cascade stays consistent;
+ * the adapter writes the result back to the form in one batch.
+ */
+function ResetActions() {
+  const { reset, clear } = useXSelectActions();
+
+  return (
+    <>
+      <Button onClick={() => reset()}>Reset</Button>
+      <Button onClick={clear}>Clear</Button>
+    </>
+  );
+}
+
 // ============================================================================
 // Main Demo Component
 // ============================================================================
@@ -459,20 +310,8 @@ export function XSelectDemo() {
     },
   });
 
-  // Create adapter for form sync
-  const adapter: FormAdapter = useMemo(
-    () => ({
-      onFieldChange: (name, value) => {
-        console.log({name, value});
-        form.setFieldValue(name, value)
-      },
-      onFieldsChange: (fields) =>
-        form.setFieldsValue(
-          Object.fromEntries(fields.map((f) => [f.name, f.value])),
-        ),
-    }),
-    [form],
-  );
+  // Two-way form sync (saved selections loaded via setFieldsValue reach the store)
+  const adapter = useMemo(() => createAntdAdapter(form), [form]);
 
   // Set form values when saved selections load
   useEffect(() => {
@@ -488,11 +327,6 @@ export function XSelectDemo() {
     saveMutation.mutate(values);
   };
 
-  // Handle reset
-  const handleReset = () => {
-    form.resetFields();
-  };
-
   // Show loading while fetching saved selections
   if (isLoadingSelections) {
     return (
@@ -538,14 +372,14 @@ export function XSelectDemo() {
           adapter={adapter}
           initialValues={savedSelections || {}}
         >
-          <Form form={form} layout="vertical">
+          <Form form={form} layout="vertical" className="x-select-demo-form">
           {/* User Select - Infinite with Error Recovery UI */}
           <Form.Item name="userIds" label="Users (with Error Recovery UI)">
             <XSelect.Dependent name="userIds">
               <XSelect.Infinite
-                queryKey="users"
-                fetchList={fetchUsers}
-                fetchByIds={fetchUsersByIds}
+                {...userSource}
+                autoRemoveMissing
+                onMissingValues={warnRemovedSelections}
                 fetchStrategy='eager'
                 pageSize={10}
                 getItemId={(item) => (item as unknown as User).id}
@@ -589,9 +423,9 @@ export function XSelectDemo() {
           <Form.Item name="projectIds" label="Projects">
             <XSelect.Dependent name="projectIds">
               <XSelect.Infinite
-                queryKey="projects"
-                fetchList={fetchProjects}
-                fetchByIds={fetchProjectsByIds}
+                {...projectSource}
+                autoRemoveMissing
+                onMissingValues={warnRemovedSelections}
                 pageSize={10}
                 getItemId={(item) => (item as unknown as Project).id}
                 getItemLabel={(item) => (item as unknown as Project).name}
@@ -613,9 +447,11 @@ export function XSelectDemo() {
           <Form.Item name="taskIds" label="Tasks">
             <XSelect.Dependent name="taskIds">
               <XSelect.Infinite
-                queryKey="tasks"
-                fetchList={fetchTasks}
-                fetchByIds={fetchTasksByIds}
+                {...taskSource}
+                autoRemoveMissing
+                onMissingValues={warnRemovedSelections}
+                showSelectAll
+                selectAllMode="expand"
                 pageSize={10}
                 getItemId={(item) => (item as unknown as Task).id}
                 getItemLabel={(item) => (item as unknown as Task).title}
@@ -638,9 +474,9 @@ export function XSelectDemo() {
           <Form.Item name="commentIds" label="Comments (depends on Users + Tasks)">
             <XSelect.Dependent name="commentIds">
               <XSelect.Infinite
-                queryKey="comments"
-                fetchList={fetchComments}
-                fetchByIds={fetchCommentsByIds}
+                {...commentSource}
+                autoRemoveMissing
+                onMissingValues={warnRemovedSelections}
                 pageSize={10}
                 getItemId={(item) => (item as unknown as Comment).id}
                 getItemLabel={(item) => {
@@ -669,9 +505,9 @@ export function XSelectDemo() {
           {/* Filter Select - Infinite only (no dependency) */}
           <Form.Item name="filterIds" label="Filters">
             <XSelect.Infinite
-              queryKey="filters"
-              fetchList={fetchFilters}
-              fetchByIds={fetchFiltersByIds}
+              {...filterSource}
+              autoRemoveMissing
+              onMissingValues={warnRemovedSelections}
               fetchStrategy="lazy"
               pageSize={10}
               getItemId={(item) => (item as unknown as Filter).id}
@@ -821,7 +657,8 @@ export function XSelectDemo() {
               >
                 Save Selections
               </Button>
-              <Button onClick={handleReset}>Reset</Button>
+              <ResetActions />
+              <HistoryActions />
               <Button
                 onClick={() => {
                   const values = form.getFieldsValue();
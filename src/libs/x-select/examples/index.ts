@@ -3,3 +3,4 @@
  */
 
 export { XSelectDemo, default } from './XSelectDemo';
+export { XSelectBenchmark } from './XSelectBenchmark';
@@ -0,0 +1,105 @@
+/**
+ * URL query-string (de)serialization and two-way sync of store values
+ */
+
+import { act, renderHook } from '@testing-library/react';
+import { createHistory, history } from '@umijs/max';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { createAllMatchingValue } from '../../selection';
+import { XSelectStore } from '../../store';
+import type { FieldConfig } from '../../types';
+import {
+  parseUrlValues,
+  serializeUrlValues,
+  useXSelectUrlSync,
+} from '../useXSelectUrlSync';
+
+const configs: FieldConfig[] = [
+  { name: 'projectId', options: [] },
+  { name: 'taskIds', dependsOn: 'projectId', mode: 'multiple', options: [] },
+];
+
+describe('serializeUrlValues / parseUrlValues', () => {
+  it('round-trips single and multiple values, keeping unrelated params', () => {
+    const search = serializeUrlValues(
+      '?tab=2',
+      { projectId: 7, taskIds: [1, 'a'] },
+      configs,
+    );
+
+    expect(search).toBe('?tab=2&projectId=7&taskIds=1&taskIds=a');
+    expect(parseUrlValues(search, configs)).toEqual({
+      projectId: 7,
+      taskIds: [1, 'a'],
+    });
+  });
+
+  it('removes params of empty values', () => {
+    const search = serializeUrlValues(
+      '?projectId=7&taskIds=1',
+      { projectId: 7, taskIds: [] },
+      configs,
+    );
+
+    expect(search).toBe('?projectId=7');
+    expect(parseUrlValues(search, configs)).toEqual({ projectId: 7 });
+  });
+
+  it('round-trips a symbolic "all matching" value', () => {
+    const value = createAllMatchingValue('bug', 7, [42]);
+    const search = serializeUrlValues('', { projectId: 7, taskIds: value }, configs);
+
+    expect(search).not.toContain('object');
+    expect(parseUrlValues(search, configs)).toEqual({
+      projectId: 7,
+      taskIds: { allMatching: true, search: 'bug', parentValue: 7, excluded: [42] },
+    });
+  });
+
+  it('reads JSON-looking params that are not "all matching" as plain values', () => {
+    const search = `?taskIds=${encodeURIComponent('{"id":1}')}`;
+
+    expect(parseUrlValues(search, configs)).toEqual({ taskIds: ['{"id":1}'] });
+  });
+});
+
+describe('useXSelectUrlSync', () => {
+  const country: FieldConfig = {
+    name: 'country',
+    options: [
+      { label: 'Vietnam', value: 'vn' },
+      { label: 'France', value: 'fr' },
+    ],
+  };
+  const city: FieldConfig = {
+    name: 'city',
+    dependsOn: 'country',
+    options: [
+      { label: 'Hanoi', value: 'hn', parentValue: 'vn' },
+      { label: 'Hue', value: 'hue', parentValue: 'vn' },
+    ],
+  };
+
+  beforeEach(() => {
+    createHistory({ type: 'memory', initialEntries: ['/page?country=vn'] });
+  });
+
+  it('syncs fields registered after mount both ways', async () => {
+    const store = new XSelectStore([country]);
+    renderHook(() => useXSelectUrlSync(store, true));
+    expect(store.getValues().country).toBe('vn');
+
+    store.registerField(city);
+    store.setValue('city', 'hn');
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(history.location.search).toBe('?country=vn&city=hn');
+
+    act(() => history.push('/page?country=vn&city=hue'));
+    expect(store.getValues().city).toBe('hue');
+
+    store.destroy();
+  });
+});
@@ -3,4 +3,23 @@
  */
 
 export { useInfiniteSelect } from './useInfiniteSelect';
-export type { UseInfiniteSelectOptions } from './useInfiniteSelect';
\ No newline at end of file
+export type { UseInfiniteSelectOptions } from './useInfiniteSelect';
+
+export {
+  useXSelectUrlSync,
+  parseUrlValues,
+  serializeUrlValues,
+} from './useXSelectUrlSync';
+export type { UrlSyncOptions } from './useXSelectUrlSync';
+
+export { useXSelectPersistence } from './useXSelectPersistence';
+
+export { useXSelectHierarchy } from './useXSelectHierarchy';
+export type {
+  HierarchyNode,
+  HierarchyValue,
+  UseXSelectHierarchyResult,
+} from './useXSelectHierarchy';
+
+export { useOptionsSearch } from './useOptionsSearch';
+export type { UseOptionsSearchOptions, UseOptionsSearchResult } from './useOptionsSearch';
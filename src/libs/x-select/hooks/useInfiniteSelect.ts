@@ -2,8 +2,10 @@
  * useInfiniteSelect - Hook for Infinite Scroll Select
  *
  * Features:
- * - Infinite scroll with useInfiniteQuery
- * - Hydration for selected values with useQuery
+ * - Infinite scroll with useInfiniteQuery (offset or cursor pagination)
+ * - Hydration for selected values with useQuery (batched per `hydrationKey`)
+ * - Selected values that no longer exist exposed as `missingValues`
+ * - "Select all matching" (symbolic value or expanded to ids)
  * - Auto-reset when parentValue changes
  * - Lazy/eager loading strategy
  * - Search with debounce
@@ -12,10 +14,25 @@
  * Make sure to wrap your app with QueryClientProvider.
  */
 
-import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
-import { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import type { InfiniteData } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { fetchItemsByIds, findMissingIds } from '../hydration';
+import {
+  createAllMatchingValue,
+  expandAllMatching,
+  isAllMatchingValue,
+  isAllMatchingView,
+} from '../selection';
 
 import type {
+  AllMatchingValue,
   BaseItem,
   FetchRequest,
   InfiniteOption,
@@ -31,6 +48,28 @@ import type {
 const DEFAULT_PAGE_SIZE = 10;
 const SCROLL_THRESHOLD = 50;
 const SEARCH_DEBOUNCE_MS = 300;
+const NO_MISSING_VALUES: Array<string | number> = [];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** useInfiniteQuery page param - `cursor` only in cursor mode */
+interface PageParam {
+  current: number;
+  cursor?: string;
+}
+
+const FIRST_PAGE: PageParam = { current: 1 };
+
+/** Page stored by the list query */
+interface ListPage<T> {
+  data: T[];
+  /** `FetchResponse.total` of this page */
+  total: number | undefined;
+  nextPageParam: PageParam | undefined;
+  fetchedWithParentValue: unknown;
+}
 
 // ============================================================================
 // HOOK OPTIONS
@@ -41,11 +80,11 @@ export interface UseInfiniteSelectOptions<T extends BaseItem = BaseItem>
   /** Parent value (for dependent field) */
   parentValue?: unknown;
 
-  /** Controlled value */
-  value?: SelectValue;
+  /** Controlled value (symbolic after "select all matching") */
+  value?: SelectValue | AllMatchingValue;
 
   /** Change handler */
-  onChange?: (value: SelectValue) => void;
+  onChange?: (value: SelectValue | AllMatchingValue) => void;
 
   /** Enable/disable query (default: true) */
   enabled?: boolean;
@@ -85,8 +124,14 @@ export function useInfiniteSelect<T extends BaseItem = BaseItem>(
     fetchList,
     fetchByIds,
     pageSize = DEFAULT_PAGE_SIZE,
+    paginationMode = 'offset',
     fetchStrategy = 'lazy',
     staleTime,
+    hydrationKey,
+    autoRemoveMissing = false,
+    onMissingValues,
+    selectAllMode = 'symbolic',
+    selectAllBatchSize,
     getItemId: customGetItemId,
     getItemLabel: customGetItemLabel,
     getItemParentValue: customGetItemParentValue,
@@ -100,12 +145,16 @@ export function useInfiniteSelect<T extends BaseItem = BaseItem>(
   // STATE
   // ============================================================================
 
-  const [internalValue, setInternalValue] = useState<SelectValue>(controlledValue);
+  const [internalValue, setInternalValue] = useState<SelectValue | AllMatchingValue>(
+    controlledValue,
+  );
   const [isOpen, setIsOpen] = useState(false);
   const [hasOpenedOnce, setHasOpenedOnce] = useState(false);
   const [searchText, setSearchText] = useState('');
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
 
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const queryClient = useQueryClient();
 
   // ============================================================================
   // HELPERS
@@ -116,10 +165,13 @@ export function useInfiniteSelect<T extends BaseItem = BaseItem>(
     customGetItemLabel ??
     ((item: T) => String((item as Record<string, unknown>).name ?? item.id));
 
-  const value = controlledValue !== undefined ? controlledValue : internalValue;
+  const rawValue = controlledValue !== undefined ? controlledValue : internalValue;
+  const allMatching = isAllMatchingValue(rawValue) ? rawValue : null;
+  // Explicit value - "all matching" has no ids to hydrate
+  const value: SelectValue = allMatching ? undefined : (rawValue as SelectValue);
 
   const handleChange = useCallback(
-    (newValue: SelectValue) => {
+    (newValue: SelectValue | AllMatchingValue) => {
       setInternalValue(newValue);
       controlledOnChange?.(newValue);
     },
@@ -161,33 +213,57 @@ export function useInfiniteSelect<T extends BaseItem = BaseItem>(
   // INFINITE QUERY FOR LIST
   // ============================================================================
 
-  const listQuery = useInfiniteQuery({
-    queryKey: [queryKey, 'list', parentValue, searchText],
-    queryFn: async ({ pageParam = 1 }) => {
+  const listQuery = useInfiniteQuery<
+    ListPage<T>,
+    Error,
+    InfiniteData<ListPage<T>, PageParam>,
+    unknown[],
+    PageParam
+  >({
+    // parentValue first - invalidateOptions(field, parentValue) matches by prefix
+    queryKey: [queryKey, 'list', parentValue, searchText, paginationMode],
+    queryFn: async ({ pageParam, signal }): Promise<ListPage<T>> => {
       const request: FetchRequest = {
-        current: pageParam as number,
+        current: pageParam.current,
         pageSize,
         parentValue,
         search: searchText || undefined,
+        signal,
       };
+      if (paginationMode === 'cursor' && pageParam.cursor) {
+        request.cursor = pageParam.cursor;
+      }
 
       const response = await fetchList(request);
       console.log({response})
-      const hasMore = response.hasMore ?? response.data.length >= pageSize;
+
+      let nextPageParam: PageParam | undefined;
+      if (paginationMode === 'cursor') {
+        // No cursor = last page, whatever the page size
+        const { nextCursor } = response;
+        if (nextCursor && response.hasMore !== false) {
+          nextPageParam = { current: pageParam.current + 1, cursor: nextCursor };
+        }
+      } else {
+        const hasMore = response.hasMore ?? response.data.length >= pageSize;
+        if (hasMore) nextPageParam = { current: pageParam.current + 1 };
+      }
 
       return {
         data: response.data,
-        nextPage: hasMore ? (pageParam as number) + 1 : undefined,
+        total: response.total,
+        nextPageParam,
         fetchedWithParentValue: parentValue,
       };
     },
-    getNextPageParam: (lastPage) => lastPage.nextPage,
-    initialPageParam: 1,
+    getNextPageParam: (lastPage) => lastPage.nextPageParam,
+    initialPageParam: FIRST_PAGE,
     placeholderData: keepPreviousData,
     enabled: isListFetchEnabled,
     staleTime,
     throwOnError(error, query) {
       console.log(error, query);
+      return false;
     },
   });
 
@@ -227,18 +303,12 @@ export function useInfiniteSelect<T extends BaseItem = BaseItem>(
 
   const hydrationQuery = useQuery({
     queryKey: [queryKey, 'hydrate', idsToHydrate, parentValue],
-    queryFn: async () => {
-      if (fetchByIds) {
-        return fetchByIds(idsToHydrate, parentValue);
-      }
-      const response = await fetchList({
-        current: 1,
-        pageSize: idsToHydrate.length,
-        parentValue,
-        ids: idsToHydrate,
-      });
-      return response.data;
-    },
+    queryFn: ({ signal }) =>
+      fetchItemsByIds(
+        { fetchList, fetchByIds, hydrationKey, getItemId },
+        idsToHydrate,
+        { parentValue, signal, queryClient },
+      ),
     enabled: idsToHydrate.length > 0,
     staleTime: staleTime ?? Infinity,
   });
@@ -271,6 +341,45 @@ export function useInfiniteSelect<T extends BaseItem = BaseItem>(
     return items.filter((item) => idSet.has(getItemId(item)));
   }, [items, selectedIds, getItemId]);
 
+  // ============================================================================
+  // MISSING VALUES
+  // ============================================================================
+
+  // Only a finished hydration tells which ids are gone (errors keep them)
+  const detectedMissing = useMemo(() => {
+    if (!hydrationQuery.isSuccess || idsToHydrate.length === 0) return NO_MISSING_VALUES;
+    return findMissingIds(idsToHydrate, hydrationQuery.data, getItemId);
+  }, [hydrationQuery.isSuccess, hydrationQuery.data, idsToHydrate, getItemId]);
+
+  // Same reference while the same ids are missing (getItemId may be inline)
+  const missingRef = useRef({ key: '', values: NO_MISSING_VALUES });
+  const missingKey = detectedMissing.join(',');
+  if (missingRef.current.key !== missingKey) {
+    missingRef.current = { key: missingKey, values: detectedMissing };
+  }
+  const missingValues = missingRef.current.values;
+
+  const handleRemoveMissingValues = useCallback(() => {
+    if (missingValues.length === 0) return;
+    const missing = new Set(missingValues.map(String));
+    if (Array.isArray(value)) {
+      handleChange(value.filter((v) => !missing.has(String(v))) as SelectValue);
+    } else {
+      handleChange(undefined);
+    }
+  }, [missingValues, value, handleChange]);
+
+  const onMissingValuesRef = useRef(onMissingValues);
+  onMissingValuesRef.current = onMissingValues;
+  const removeMissingRef = useRef(handleRemoveMissingValues);
+  removeMissingRef.current = handleRemoveMissingValues;
+
+  useEffect(() => {
+    if (missingValues.length === 0) return;
+    onMissingValuesRef.current?.(missingValues);
+    if (autoRemoveMissing) removeMissingRef.current();
+  }, [missingValues, autoRemoveMissing]);
+
   const selectOptions = useMemo((): InfiniteOption<T>[] => {
     return items.map((item) => {
       const itemParentValue = customGetItemParentValue
@@ -286,6 +395,90 @@ export function useInfiniteSelect<T extends BaseItem = BaseItem>(
     });
   }, [items, getItemId, getItemLabel, customGetItemParentValue, itemParentMap]);
 
+  // ============================================================================
+  // SELECT ALL MATCHING
+  // ============================================================================
+
+  const pages = listQuery.data?.pages;
+  const total = pages?.[pages.length - 1]?.total;
+
+  const isAllMatchingVisible = allMatching
+    ? isAllMatchingView(allMatching, searchText, parentValue)
+    : false;
+
+  const allMatchingCount =
+    allMatching && isAllMatchingVisible && total !== undefined
+      ? Math.max(total - allMatching.excluded.length, 0)
+      : undefined;
+
+  // Loaded items of the symbolic selection, shown as selected in the list
+  const displayValue = useMemo((): SelectValue => {
+    if (!allMatching) return value;
+    if (!isAllMatchingVisible) return [];
+    const excluded = new Set(allMatching.excluded.map(String));
+    return listData.map(getItemId).filter((id) => !excluded.has(String(id)));
+  }, [allMatching, isAllMatchingVisible, value, listData, getItemId]);
+
+  const handleSelectChange = useCallback(
+    (newValue: SelectValue) => {
+      if (!allMatching) {
+        handleChange(newValue);
+        return;
+      }
+
+      const nextIds = Array.isArray(newValue) ? newValue : [];
+      if (nextIds.length === 0) {
+        handleChange([]);
+        return;
+      }
+      // Other search / parent - the loaded list isn't part of the selection
+      if (!isAllMatchingVisible) return;
+
+      // Deselecting a loaded item excludes it, selecting it again restores it
+      const next = new Set(nextIds.map(String));
+      const excluded = new Set(allMatching.excluded.map(String));
+      const excludedIds = allMatching.excluded.filter((id) => !next.has(String(id)));
+      for (const id of listData.map(getItemId)) {
+        if (!next.has(String(id)) && !excluded.has(String(id))) excludedIds.push(id);
+      }
+      handleChange({ ...allMatching, excluded: excludedIds });
+    },
+    [allMatching, isAllMatchingVisible, listData, getItemId, handleChange],
+  );
+
+  const handleSelectAllMatching = useCallback(async () => {
+    const snapshot = createAllMatchingValue(searchText, parentValue);
+    if (selectAllMode === 'symbolic') {
+      handleChange(snapshot);
+      return;
+    }
+
+    setIsSelectingAll(true);
+    try {
+      const ids = await expandAllMatching(
+        { fetchList, paginationMode, getItemId },
+        snapshot,
+        { batchSize: selectAllBatchSize },
+      );
+      const known = new Set(selectedIds.map(String));
+      handleChange([...selectedIds, ...ids.filter((id) => !known.has(String(id)))]);
+    } catch (error) {
+      console.error('[XSelect] Select all matching failed:', error);
+    } finally {
+      setIsSelectingAll(false);
+    }
+  }, [
+    searchText,
+    parentValue,
+    selectAllMode,
+    selectAllBatchSize,
+    fetchList,
+    paginationMode,
+    getItemId,
+    selectedIds,
+    handleChange,
+  ]);
+
   // ============================================================================
   // SCROLL HANDLER
   // ============================================================================
@@ -368,7 +561,7 @@ export function useInfiniteSelect<T extends BaseItem = BaseItem>(
     options: selectOptions,
     items,
     selectedItems,
-    value,
+    value: displayValue,
     isLoading: listQuery.isLoading,
     isHydrating: hydrationQuery.isLoading,
     isFetchingMore: listQuery.isFetchingNextPage,
@@ -378,7 +571,14 @@ export function useInfiniteSelect<T extends BaseItem = BaseItem>(
     listError,
     hydrationError,
     isRetrying,
-    onChange: handleChange,
+    missingValues,
+    removeMissingValues: handleRemoveMissingValues,
+    total,
+    allMatching,
+    allMatchingCount,
+    isSelectingAll,
+    selectAllMatching: handleSelectAllMatching,
+    onChange: handleSelectChange,
     onOpenChange: handleOpenChange,
     onScroll: handleScroll,
     onSearch: handleSearch,
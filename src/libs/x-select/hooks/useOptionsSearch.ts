@@ -0,0 +1,132 @@
+/**
+ * useOptionsSearch - Parent filtering + search in a Web Worker
+ *
+ * Features:
+ * - One options worker per component, terminated on unmount
+ * - Options re-indexed only when the array changes
+ * - Out-of-order worker responses are ignored
+ * - Previous results stay visible while a query is pending
+ *
+ * NOTE: Used by the `worker` mode of `StaticWrapper` / `DependentWrapper`.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+import { createOptionsSearchWorker } from '../search';
+import type {
+  OptionsQuery,
+  OptionsSearchWorker,
+  SearchKey,
+  SearchMatch,
+  XSelectOption,
+} from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UseOptionsSearchOptions<T extends XSelectOption> {
+  /** Run in a worker (false = hook is idle) */
+  enabled: boolean;
+
+  /** Searched keys (default: ['label']) */
+  keys?: SearchKey<T>[];
+
+  /** Typo-tolerant matching (default: true) */
+  fuzzy?: boolean;
+}
+
+export interface UseOptionsSearchResult<T extends XSelectOption> {
+  /** Matching options, best first - null until the first result */
+  matches: SearchMatch<T>[] | null;
+
+  /** A query is running */
+  isPending: boolean;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Keys by name + weight (getters cannot be compared) */
+function toKeysSignature(keys: SearchKey<XSelectOption>[] | undefined): string {
+  return JSON.stringify(
+    (keys ?? []).map((key) => (typeof key === 'string' ? key : [key.name, key.weight])),
+  );
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Filter and search `options` off the main thread.
+ */
+export function useOptionsSearch<T extends XSelectOption>(
+  options: readonly T[],
+  query: OptionsQuery,
+  { enabled, keys, fuzzy = true }: UseOptionsSearchOptions<T>,
+): UseOptionsSearchResult<T> {
+  const [worker, setWorker] = useState<OptionsSearchWorker<T> | null>(null);
+  const [datasetVersion, setDatasetVersion] = useState(0);
+  const [matches, setMatches] = useState<SearchMatch<T>[] | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const latestRequest = useRef(0);
+
+  const keysRef = useRef(keys);
+  keysRef.current = keys;
+  const keysSignature = toKeysSignature(keys as SearchKey<XSelectOption>[] | undefined);
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+
+    const instance = createOptionsSearchWorker<T>({ keys: keysRef.current, fuzzy });
+    setWorker(instance);
+
+    return () => {
+      // Queries of the terminated worker reject - ignored as outdated
+      latestRequest.current++;
+      instance.terminate();
+      setWorker(null);
+      setMatches(null);
+      setIsPending(false);
+    };
+  }, [enabled, keysSignature, fuzzy]);
+
+  useEffect(() => {
+    if (!worker) return;
+    worker.load(options);
+    setDatasetVersion((version) => version + 1);
+  }, [worker, options]);
+
+  // Stable request identity across renders (parentValue may be a new array)
+  const requestKey = JSON.stringify(query);
+  const request = useMemo<OptionsQuery>(() => JSON.parse(requestKey), [requestKey]);
+
+  useEffect(() => {
+    if (!worker || datasetVersion === 0) return;
+
+    const requestId = ++latestRequest.current;
+    setIsPending(true);
+
+    // A failed worker falls back to the main thread - ask once more there
+    const run = (isRetry: boolean): Promise<void> =>
+      worker
+        .query(request)
+        .then((result) => {
+          if (requestId !== latestRequest.current) return;
+          setMatches(result);
+          setIsPending(false);
+        })
+        .catch((error: Error) => {
+          if (requestId !== latestRequest.current) return;
+          if (!isRetry) return run(true);
+          setIsPending(false);
+          console.error('[XSelect] Options worker query failed:', error);
+        });
+
+    run(false);
+  }, [worker, datasetVersion, request]);
+
+  return { matches, isPending };
+}
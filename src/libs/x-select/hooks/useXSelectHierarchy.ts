@@ -0,0 +1,246 @@
+/**
+ * useXSelectHierarchy - One hierarchical control over a field chain
+ *
+ * Builds nested options from a `dependsOn` chain (country → province → city)
+ * for single-control UIs (antd `Cascader` / `TreeSelect`):
+ * - Static levels are linked through `parentValue` (or `filterOptions`)
+ * - Async levels are lazy-loaded with the field's own `options` loader
+ *   (shared cache), children along the selected path load automatically
+ * - A selected path is written back to the individual fields
+ *
+ * NOTE: Used by `XSelect.Cascader` / `XSelect.Tree`; configs are the same
+ * as for separate `XSelect.Dependent` selects.
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+
+import type { XSelectStore } from '../store';
+import type { XSelectOption } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HierarchyValue = string | number;
+
+/**
+ * Node of the option tree.
+ */
+export interface HierarchyNode {
+  value: HierarchyValue;
+  label: string;
+  disabled?: boolean;
+
+  /** Index of the node's field in the chain */
+  level: number;
+
+  /** Values from the root down to this node */
+  path: HierarchyValue[];
+
+  /** Last level of the chain */
+  isLeaf: boolean;
+
+  /** Child nodes - undefined while an async level is not loaded */
+  children?: HierarchyNode[];
+}
+
+export interface UseXSelectHierarchyResult {
+  /** Field names, root first */
+  fields: string[];
+
+  /** Root nodes */
+  nodes: HierarchyNode[];
+
+  /** Selected path (values of the chain fields, up to the first empty one) */
+  value: HierarchyValue[];
+
+  /** Write a path back to the fields (shorter paths clear deeper levels) */
+  onChange: (path: HierarchyValue[]) => void;
+
+  /** Load children of the node at `path` */
+  loadChildren: (path: HierarchyValue[]) => Promise<void>;
+
+  /** Root options loading */
+  loading: boolean;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Resolve the chain: explicit field list, or a leaf field followed up its
+ * single-parent `dependsOn` links.
+ */
+function resolveChain(
+  store: XSelectStore,
+  fieldsKey: string,
+  isLeafName: boolean,
+): string[] {
+  if (!isLeafName) return fieldsKey.split(',');
+
+  const chain: string[] = [];
+  let name: string | undefined = fieldsKey;
+
+  while (name && !chain.includes(name)) {
+    chain.unshift(name);
+    const dependsOn: string | string[] | undefined = store.getConfig(name)?.dependsOn;
+    name = typeof dependsOn === 'string' ? dependsOn : undefined;
+  }
+
+  return chain;
+}
+
+function toPathKey(path: HierarchyValue[]): string {
+  return JSON.stringify(path);
+}
+
+/** First value of a (possibly multiple) field value */
+function toPathValue(value: unknown): HierarchyValue | null {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single === undefined || single === null ? null : (single as HierarchyValue);
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Hierarchical options + selected path for a field chain.
+ * Pass the leaf field name, or the chain as an array (root first).
+ */
+export function useXSelectHierarchy(
+  store: XSelectStore,
+  fields: string | string[],
+): UseXSelectHierarchyResult {
+  const isLeafName = !Array.isArray(fields);
+  const fieldsKey = Array.isArray(fields) ? fields.join(',') : fields;
+
+  const chain = useMemo(
+    () => resolveChain(store, fieldsKey, isLeafName),
+    [store, fieldsKey, isLeafName],
+  );
+
+  // Selected path + root loading flag as one primitive snapshot
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      const unsubscribes = chain.map((name) => store.subscribe(name, onStoreChange));
+      return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+    },
+    [store, chain],
+  );
+
+  const getSnapshot = useCallback(() => {
+    const values = chain.map((name) => toPathValue(store.getFieldSnapshot(name).value));
+    const loading = store.getFieldSnapshot(chain[0]).isLoading;
+    return JSON.stringify([loading, values]);
+  }, [store, chain]);
+
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const { loading, value } = useMemo(() => {
+    const [isLoading, values] = JSON.parse(snapshot) as [
+      boolean,
+      (HierarchyValue | null)[],
+    ];
+    const end = values.indexOf(null);
+    return {
+      loading: isLoading,
+      value: (end === -1 ? values : values.slice(0, end)) as HierarchyValue[],
+    };
+  }, [snapshot]);
+
+  // Lazily loaded levels: path key → child options
+  const [loaded, setLoaded] = useState<Record<string, XSelectOption[]>>({});
+  const inFlight = useRef(new Set<string>());
+
+  useEffect(() => {
+    setLoaded({});
+    inFlight.current.clear();
+  }, [chain]);
+
+  const loadChildren = useCallback(
+    async (path: HierarchyValue[]) => {
+      const field = chain[path.length];
+      const key = toPathKey(path);
+      if (!field || path.length === 0 || inFlight.current.has(key)) return;
+
+      inFlight.current.add(key);
+      try {
+        const options = await store.fetchOptions(field, path[path.length - 1]);
+        setLoaded((prev) => ({ ...prev, [key]: options }));
+      } catch (error) {
+        // Left unloaded - expanding the node again retries
+        inFlight.current.delete(key);
+        console.error(`[XSelect] Failed to load "${field}" options:`, error);
+      }
+    },
+    [store, chain],
+  );
+
+  // Children along the selected path (labels of the current value)
+  useEffect(() => {
+    for (let level = 1; level < value.length; level++) {
+      const path = value.slice(0, level);
+      const isKnown =
+        !!loaded[toPathKey(path)] ||
+        !!store.getOptionsForParent(chain[level], path[level - 1]);
+      if (!isKnown) loadChildren(path);
+    }
+  }, [store, chain, value, loaded, loadChildren]);
+
+  const nodes = useMemo(() => {
+    const build = (
+      options: XSelectOption[],
+      level: number,
+      parentPath: HierarchyValue[],
+    ): HierarchyNode[] =>
+      options.map((option) => {
+        const path = [...parentPath, option.value];
+        const isLeaf = level === chain.length - 1;
+
+        let children: HierarchyNode[] | undefined;
+        if (!isLeaf) {
+          const childOptions =
+            loaded[toPathKey(path)] ??
+            store.getOptionsForParent(chain[level + 1], option.value);
+          children = childOptions && build(childOptions, level + 1, path);
+        }
+
+        return {
+          value: option.value,
+          label: option.label,
+          disabled: option.disabled,
+          level,
+          path,
+          isLeaf,
+          children,
+        };
+      });
+
+    return build(store.getOptions(chain[0]), 0, []);
+    // loading: async root options land when loading ends
+  }, [store, chain, loaded, loading]);
+
+  const onChange = useCallback(
+    (path: HierarchyValue[]) => {
+      const values: Record<string, unknown> = {};
+      chain.forEach((name, level) => {
+        const next = path[level];
+        const isMultiple = !!store.getConfig(name)?.mode;
+        values[name] = next === undefined ? undefined : isMultiple ? [next] : next;
+      });
+      store.setValues(values);
+    },
+    [store, chain],
+  );
+
+  return { fields: chain, nodes, value, onChange, loadChildren, loading };
+}
@@ -0,0 +1,142 @@
+/**
+ * useXSelectPersistence - Remember selections across sessions
+ *
+ * Features:
+ * - Pluggable storage driver (localStorage / IndexedDB / server / custom)
+ * - Versioned payload with migration
+ * - Debounced writes, flushed on unmount
+ * - Restored values are verified against available options
+ *
+ * Restore rules:
+ * - Only fields that are still empty are restored, so explicit
+ *   `initialValues`, controlled values and URL params win
+ * - Nothing is written until the restore finished
+ *
+ * NOTE: Enabled via `XSelectProvider` `persistence` prop.
+ */
+
+import { useEffect, useRef } from 'react';
+
+import { dropUnavailableValues, readPersistedValues } from '../persistence';
+import type { XSelectStore } from '../store';
+import type { FieldValues, PersistenceOptions } from '../types';
+import { isEmpty } from '../utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Persist store values with the given driver.
+ * Pass `undefined` to disable.
+ */
+export function useXSelectPersistence(
+  store: XSelectStore,
+  persistence: PersistenceOptions | undefined,
+): void {
+  // Latest options without re-running the effect on every render
+  const optionsRef = useRef(persistence);
+  optionsRef.current = persistence;
+
+  const key = persistence?.key;
+  const enabled = !!persistence;
+
+  useEffect(() => {
+    if (!enabled || !key) return;
+
+    let isActive = true;
+    let isRestored = false;
+    // Option checks of the restore stop on unmount
+    const restoreController = new AbortController();
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const pickValues = (): FieldValues => {
+      const options = optionsRef.current!;
+      const values = store.getValues();
+      const names = options.fields ?? store.getConfigs().map((c) => c.name);
+
+      const picked: FieldValues = {};
+      for (const name of names) {
+        picked[name] = values[name];
+      }
+      return picked;
+    };
+
+    const save = () => {
+      saveTimer = null;
+      const options = optionsRef.current;
+      if (!options) return;
+
+      Promise.resolve(
+        options.driver.save(key, {
+          version: options.version ?? 1,
+          values: pickValues(),
+          savedAt: Date.now(),
+        }),
+      ).catch((error) => {
+        console.error(`[XSelect] Failed to persist "${key}":`, error);
+      });
+    };
+
+    const scheduleSave = () => {
+      if (!isRestored) return;
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = setTimeout(save, optionsRef.current?.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+    };
+
+    const offValueChange = store.on('value:change', scheduleSave);
+    const offSync = store.on('sync:controlled', scheduleSave);
+
+    // Restore
+    (async () => {
+      const options = optionsRef.current!;
+
+      try {
+        const persisted = await readPersistedValues(options);
+        if (!isActive || !persisted) return;
+
+        const current = store.getValues();
+        const candidates: FieldValues = {};
+        for (const [name, value] of Object.entries(persisted)) {
+          if (store.getConfig(name) && isEmpty(current[name]) && !isEmpty(value)) {
+            candidates[name] = value;
+          }
+        }
+
+        const { values, dropped } = await dropUnavailableValues(
+          store,
+          candidates,
+          options.resolveOptions,
+          restoreController.signal,
+        );
+        if (!isActive) return;
+
+        store.restoreValues(values);
+        options.onRestore?.(values, dropped);
+      } catch (error) {
+        if (isActive) console.error(`[XSelect] Failed to restore "${key}":`, error);
+      } finally {
+        isRestored = true;
+      }
+    })();
+
+    return () => {
+      isActive = false;
+      restoreController.abort();
+      offValueChange();
+      offSync();
+
+      // Flush pending write
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        save();
+      }
+    };
+  }, [store, enabled, key]);
+}
@@ -0,0 +1,255 @@
+/**
+ * useXSelectUrlSync - Two-way URL query-string sync for XSelectStore
+ *
+ * Features:
+ * - Serializes selected values into query params (multi-select = repeated keys,
+ *   symbolic "select all matching" values = one JSON param)
+ * - Restores values on mount in dependency order (cascade keeps them)
+ * - Writes URL with replace (default) or push semantics, one write per change batch
+ * - Back/forward navigation restores the matching selection (same pathname only)
+ *
+ * NOTE: Uses Umi's `history`. Enabled via `XSelectProvider` `urlSync` prop.
+ *
+ * @example
+ * ```tsx
+ * <XSelectProvider configs={configs} urlSync={{ fields: ['userIds', 'projectIds'], mode: 'push' }}>
+ *   ...
+ * </XSelectProvider>
+ * // → /home?userIds=1&userIds=2&projectIds=7
+ * ```
+ */
+
+import { history } from '@umijs/max';
+import { useEffect } from 'react';
+
+import { isAllMatchingValue } from '../selection';
+import type { XSelectStore } from '../store';
+import type { AllMatchingValue, FieldConfig, FieldValues } from '../types';
+import { isEmpty } from '../utils';
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+export interface UrlSyncOptions {
+  /** Fields to sync (default: all configured fields) */
+  fields?: string[];
+
+  /** Query param prefix, e.g. 'f_' → ?f_country=VN (default: '') */
+  prefix?: string;
+
+  /**
+   * History semantics on value change:
+   * - 'replace': update current entry (default)
+   * - 'push': new entry per change - back button restores previous selection
+   */
+  mode?: 'replace' | 'push';
+
+  /** Parse a raw query value (default: numeric strings → number) */
+  parseValue?: (raw: string, fieldName: string) => unknown;
+
+  /** Serialize a single value (default: String) */
+  serializeValue?: (value: unknown, fieldName: string) => string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?$/;
+
+function defaultParseValue(raw: string): unknown {
+  if (NUMERIC_PATTERN.test(raw) && String(Number(raw)) === raw) {
+    return Number(raw);
+  }
+  return raw;
+}
+
+function isMultiple(config: FieldConfig): boolean {
+  return config.mode === 'multiple' || config.mode === 'tags';
+}
+
+/**
+ * Read a symbolic "all matching" value (written as a single JSON param).
+ */
+function parseAllMatchingValue(raw: string[]): AllMatchingValue | undefined {
+  if (raw.length !== 1 || !raw[0].startsWith('{')) return undefined;
+
+  try {
+    const value: unknown = JSON.parse(raw[0]);
+    return isAllMatchingValue(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read synced field values from a query string.
+ * Fields missing from the URL are omitted (not cleared).
+ */
+export function parseUrlValues(
+  search: string,
+  configs: ReadonlyArray<FieldConfig>,
+  options: UrlSyncOptions = {},
+): FieldValues {
+  const { prefix = '', parseValue = defaultParseValue } = options;
+  const params = new URLSearchParams(search);
+  const fields = options.fields ? new Set(options.fields) : null;
+  const values: FieldValues = {};
+
+  for (const config of configs) {
+    if (fields && !fields.has(config.name)) continue;
+
+    const key = `${prefix}${config.name}`;
+    if (!params.has(key)) continue;
+
+    const raw = params.getAll(key).filter((v) => v !== '');
+    const allMatching = parseAllMatchingValue(raw);
+    if (allMatching) {
+      values[config.name] = allMatching;
+      continue;
+    }
+
+    const parsed = raw.map((v) => parseValue(v, config.name));
+
+    values[config.name] = isMultiple(config) ? parsed : parsed[0];
+  }
+
+  return values;
+}
+
+/**
+ * Write synced field values into a query string, keeping unrelated params.
+ */
+export function serializeUrlValues(
+  search: string,
+  values: FieldValues,
+  configs: ReadonlyArray<FieldConfig>,
+  options: UrlSyncOptions = {},
+): string {
+  const { prefix = '', serializeValue = (v: unknown) => String(v) } = options;
+  const params = new URLSearchParams(search);
+  const fields = options.fields ? new Set(options.fields) : null;
+
+  for (const config of configs) {
+    if (fields && !fields.has(config.name)) continue;
+
+    const key = `${prefix}${config.name}`;
+    const value = values[config.name];
+    params.delete(key);
+
+    if (isEmpty(value)) continue;
+
+    if (isAllMatchingValue(value)) {
+      params.append(key, JSON.stringify(value));
+      continue;
+    }
+
+    const list = Array.isArray(value) ? value : [value];
+    for (const item of list) {
+      params.append(key, serializeValue(item, config.name));
+    }
+  }
+
+  const result = params.toString();
+  return result ? `?${result}` : '';
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Keep store values and the URL query string in sync.
+ * Pass `undefined`/`false` to disable.
+ */
+export function useXSelectUrlSync(
+  store: XSelectStore,
+  urlSync: boolean | UrlSyncOptions | undefined,
+): void {
+  const enabled = !!urlSync;
+  const options: UrlSyncOptions = typeof urlSync === 'object' ? urlSync : {};
+  const optionsKey = JSON.stringify({
+    fields: options.fields,
+    prefix: options.prefix,
+    mode: options.mode,
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // The page this provider syncs - other pathnames belong to other pages
+    const syncedPathname = history.location.pathname;
+    let isWriting = false;
+    let isWriteScheduled = false;
+
+    // URL → store (mount). Configs are read on each sync - fields may be
+    // registered later (`registerField` / `XSelect.Field`)
+    store.restoreValues(
+      parseUrlValues(history.location.search, store.getConfigs(), options),
+    );
+
+    // Store → URL (coalesce cascades into a single write)
+    const writeUrl = () => {
+      isWriteScheduled = false;
+
+      const { pathname, search } = history.location;
+      if (pathname !== syncedPathname) return;
+
+      const nextSearch = serializeUrlValues(
+        search,
+        store.getValues(),
+        store.getConfigs(),
+        options,
+      );
+      if (nextSearch === search) return;
+
+      // history notifies listeners synchronously - skip our own writes
+      isWriting = true;
+      try {
+        if (options.mode === 'push') {
+          history.push({ pathname, search: nextSearch });
+        } else {
+          history.replace({ pathname, search: nextSearch });
+        }
+      } finally {
+        isWriting = false;
+      }
+    };
+
+    const scheduleWrite = () => {
+      if (isWriteScheduled) return;
+      isWriteScheduled = true;
+      queueMicrotask(writeUrl);
+    };
+
+    const offValueChange = store.on('value:change', scheduleWrite);
+    const offSync = store.on('sync:controlled', scheduleWrite);
+
+    // URL → store (back/forward, links)
+    const unlisten = history.listen(({ location }) => {
+      if (isWriting || location.pathname !== syncedPathname) return;
+
+      const configs = store.getConfigs();
+      const urlValues = parseUrlValues(location.search, configs, options);
+      const restored: FieldValues = {};
+      for (const config of configs) {
+        if (options.fields && !options.fields.includes(config.name)) continue;
+        // Missing param on navigation = cleared selection
+        restored[config.name] = config.name in urlValues
+          ? urlValues[config.name]
+          : isMultiple(config)
+            ? []
+            : undefined;
+      }
+      store.restoreValues(restored);
+    });
+
+    return () => {
+      offValueChange();
+      offSync();
+      unlisten();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [store, enabled, optionsKey]);
+}
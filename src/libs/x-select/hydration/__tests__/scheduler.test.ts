@@ -0,0 +1,131 @@
+/**
+ * Hydration scheduler - per-tick batching, in-flight joins, aborts, cache priming
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import { describe, expect, it } from 'vitest';
+
+import { createHydrationScheduler, getHydrationQueryKey } from '../scheduler';
+
+type User = { id: number; name: string };
+
+const user = (id: number): User => ({ id, name: `User ${id}` });
+
+/** Fetcher whose requests resolve by hand */
+const createDeferredFetcher = () => {
+  const calls: Array<{
+    ids: Array<string | number>;
+    signal: AbortSignal;
+    resolve: () => void;
+  }> = [];
+  const fetchByIds = (ids: Array<string | number>, signal: AbortSignal) =>
+    new Promise<User[]>((resolve) => {
+      calls.push({ ids, signal, resolve: () => resolve(ids.map(Number).map(user)) });
+    });
+  return { calls, fetchByIds };
+};
+
+const tick = () =>
+  new Promise((resolve) => {
+    setTimeout(resolve, 0);
+  });
+
+describe('createHydrationScheduler', () => {
+  it('batches the ids requested within one tick into one request per key', async () => {
+    const scheduler = createHydrationScheduler(new QueryClient());
+    const { calls, fetchByIds } = createDeferredFetcher();
+
+    const first = scheduler.load({ key: 'users', ids: [1, 2], fetchByIds });
+    const second = scheduler.load({ key: 'users', ids: [2, 3], fetchByIds });
+    await tick();
+
+    expect(calls.map((call) => call.ids)).toEqual([[1, 2, 3]]);
+    calls[0].resolve();
+
+    expect(await first).toEqual([user(1), user(2)]);
+    expect(await second).toEqual([user(2), user(3)]);
+  });
+
+  it('joins ids already being fetched instead of requesting them again', async () => {
+    const scheduler = createHydrationScheduler(new QueryClient());
+    const { calls, fetchByIds } = createDeferredFetcher();
+
+    const first = scheduler.load({ key: 'users', ids: [1], fetchByIds });
+    await tick();
+    const joined = scheduler.load({ key: 'users', ids: [1], fetchByIds });
+    await tick();
+
+    expect(calls).toHaveLength(1);
+    calls[0].resolve();
+
+    expect(await first).toEqual([user(1)]);
+    expect(await joined).toEqual([user(1)]);
+  });
+
+  it('aborts a request only once every caller has aborted', async () => {
+    const scheduler = createHydrationScheduler(new QueryClient());
+    const { calls, fetchByIds } = createDeferredFetcher();
+    const firstController = new AbortController();
+    const secondController = new AbortController();
+
+    const first = scheduler.load({
+      key: 'users',
+      ids: [1],
+      fetchByIds,
+      signal: firstController.signal,
+    });
+    const second = scheduler.load({
+      key: 'users',
+      ids: [1],
+      fetchByIds,
+      signal: secondController.signal,
+    });
+    await tick();
+
+    firstController.abort();
+    await expect(first).rejects.toBe(firstController.signal.reason);
+    expect(calls[0].signal.aborted).toBe(false);
+
+    secondController.abort();
+    await expect(second).rejects.toBe(secondController.signal.reason);
+    expect(calls[0].signal.aborted).toBe(true);
+  });
+
+  it('skips the request when every caller aborts before the tick ends', async () => {
+    const scheduler = createHydrationScheduler(new QueryClient());
+    const { calls, fetchByIds } = createDeferredFetcher();
+    const controller = new AbortController();
+
+    const load = scheduler.load({
+      key: 'users',
+      ids: [1],
+      fetchByIds,
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(load).rejects.toBe(controller.signal.reason);
+    await tick();
+
+    expect(calls).toHaveLength(0);
+  });
+
+  it('primes the query cache and serves cached ids without a request', async () => {
+    const queryClient = new QueryClient();
+    const scheduler = createHydrationScheduler(queryClient);
+    const { calls, fetchByIds } = createDeferredFetcher();
+
+    const load = scheduler.load({ key: 'users', ids: [1], fetchByIds });
+    await tick();
+    calls[0].resolve();
+    await load;
+
+    expect(queryClient.getQueryData(getHydrationQueryKey('users', 1))).toEqual(user(1));
+
+    const cached = scheduler.load({ key: 'users', ids: [1, 2], fetchByIds });
+    await tick();
+
+    expect(calls.map((call) => call.ids)).toEqual([[1], [2]]);
+    calls[1].resolve();
+    expect(await cached).toEqual([user(1), user(2)]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * XSelect - Hydrate Items by ID
+ *
+ * Shared by `useInfiniteSelect` hydration and the persistence restore check,
+ * so both see exactly the same items for an id.
+ */
+
+import type { QueryClient } from '@tanstack/react-query';
+
+import type { BaseItem, InfiniteConfig } from '../types';
+import { getHydrationScheduler } from './scheduler';
+
+/** Config fields used to hydrate ids */
+export type HydrationSource<T extends BaseItem = BaseItem> = Pick<
+  InfiniteConfig<T>,
+  'fetchList' | 'fetchByIds' | 'hydrationKey' | 'getItemId'
+>;
+
+export interface FetchItemsByIdsOptions {
+  /** Parent value passed to unbatched fetches */
+  parentValue?: unknown;
+
+  /** Abort signal of the caller */
+  signal?: AbortSignal;
+
+  /** Enables batching through `hydrationKey` (one scheduler per client) */
+  queryClient?: QueryClient;
+}
+
+/**
+ * Fetch the items of `ids` - ids that no longer exist are simply not returned.
+ *
+ * - `fetchByIds` + `hydrationKey` + `queryClient`: batched per entity
+ * - `fetchByIds`: direct call
+ * - Otherwise: `fetchList` with `ids`
+ */
+export async function fetchItemsByIds<T extends BaseItem>(
+  source: HydrationSource<T>,
+  ids: Array<string | number>,
+  { parentValue, signal, queryClient }: FetchItemsByIdsOptions = {},
+): Promise<T[]> {
+  const { fetchList, fetchByIds, hydrationKey, getItemId } = source;
+  if (ids.length === 0) return [];
+
+  if (fetchByIds && hydrationKey && queryClient) {
+    // One request per entity for every select hydrating in this tick
+    return getHydrationScheduler(queryClient).load({
+      key: hydrationKey,
+      ids,
+      fetchByIds: (batchIds, batchSignal) => fetchByIds(batchIds, undefined, batchSignal),
+      getItemId,
+      signal,
+    });
+  }
+
+  if (fetchByIds) {
+    return fetchByIds(ids, parentValue, signal);
+  }
+
+  const response = await fetchList({
+    current: 1,
+    pageSize: ids.length,
+    parentValue,
+    ids,
+    signal,
+  });
+  return response.data;
+}
+
+/**
+ * Ids of `ids` without a matching item.
+ */
+export function findMissingIds<T extends BaseItem>(
+  ids: Array<string | number>,
+  items: T[],
+  getItemId: (item: T) => string | number = (item) => item.id,
+): Array<string | number> {
+  // String compare - a saved "42" still matches item id 42
+  const found = new Set(items.map((item) => String(getItemId(item))));
+  return ids.filter((id) => !found.has(String(id)));
+}
@@ -0,0 +1,12 @@
+/**
+ * XSelect - Hydration Exports
+ */
+
+export { fetchItemsByIds, findMissingIds } from './fetchItemsByIds';
+export type { FetchItemsByIdsOptions, HydrationSource } from './fetchItemsByIds';
+
+export {
+  createHydrationScheduler,
+  getHydrationQueryKey,
+  getHydrationScheduler,
+} from './scheduler';
@@ -0,0 +1,259 @@
+/**
+ * XSelect - Hydration Scheduler
+ *
+ * Coalesces `fetchByIds` calls of every select on a page. A form with ten user
+ * pickers (or a Table with a user column filter per column) hydrates with one
+ * `?ids=` request per entity instead of one per select:
+ *
+ * 1. Ids already in the React Query cache resolve immediately
+ * 2. Ids already being fetched join the in-flight request
+ * 3. Remaining ids are queued and flushed together on the next tick
+ *
+ * Every fetched item primes `getHydrationQueryKey(key, id)`, so later
+ * hydrations of the same value are served from the cache.
+ */
+
+import type { QueryClient } from '@tanstack/react-query';
+
+import type { BaseItem, HydrationRequest, HydrationScheduler } from '../types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Selects mounted by one render usually start their queries in separate effects */
+const BATCH_DELAY_MS = 0;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ItemId = string | number;
+
+interface Batch {
+  ids: Set<ItemId>;
+  fetchByIds: HydrationRequest['fetchByIds'];
+  getItemId: (item: BaseItem) => ItemId;
+  controller: AbortController;
+  /** Items by `String(id)` */
+  promise: Promise<Map<string, BaseItem>>;
+  resolve: (items: Map<string, BaseItem>) => void;
+  reject: (error: unknown) => void;
+  /** Callers still waiting - aborted together when none is left */
+  callers: number;
+  flushed: boolean;
+}
+
+interface EntityState {
+  queued: Batch | null;
+  /** Batch fetching each id (by `String(id)`) */
+  inFlight: Map<string, Batch>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Query key of a hydrated item.
+ *
+ * @example Read a hydrated user outside of the select
+ * ```ts
+ * queryClient.getQueryData(getHydrationQueryKey('users', 42));
+ * ```
+ */
+export function getHydrationQueryKey(key: string, id: ItemId): unknown[] {
+  return [key, 'item', String(id)];
+}
+
+function createBatch(request: HydrationRequest<BaseItem>): Batch {
+  let resolve!: Batch['resolve'];
+  let reject!: Batch['reject'];
+  const promise = new Promise<Map<string, BaseItem>>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Callers attach their handlers later - avoid unhandled rejections meanwhile
+  promise.catch(() => undefined);
+
+  return {
+    ids: new Set(),
+    fetchByIds: request.fetchByIds,
+    getItemId: request.getItemId ?? ((item) => item.id),
+    controller: new AbortController(),
+    promise,
+    resolve,
+    reject,
+    callers: 0,
+    flushed: false,
+  };
+}
+
+/** Stop routing new callers to `batch` */
+function releaseBatch(entity: EntityState, batch: Batch): void {
+  for (const id of batch.ids) {
+    if (entity.inFlight.get(String(id)) === batch) entity.inFlight.delete(String(id));
+  }
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Hydration aborted', 'AbortError');
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * Create a hydration scheduler priming `queryClient`.
+ *
+ * NOTE: `useInfiniteSelect` uses one scheduler per QueryClient
+ * (`getHydrationScheduler`) - create your own only outside of React.
+ */
+export function createHydrationScheduler(queryClient: QueryClient): HydrationScheduler {
+  const entities = new Map<string, EntityState>();
+
+  const getEntity = (key: string): EntityState => {
+    let entity = entities.get(key);
+    if (!entity) {
+      entity = { queued: null, inFlight: new Map() };
+      entities.set(key, entity);
+    }
+    return entity;
+  };
+
+  const flush = async (key: string, entity: EntityState, batch: Batch) => {
+    if (entity.queued === batch) entity.queued = null;
+    batch.flushed = true;
+
+    // Cleared, or every caller aborted before the tick ended
+    if (batch.controller.signal.aborted || batch.callers === 0) {
+      releaseBatch(entity, batch);
+      batch.resolve(new Map());
+      return;
+    }
+
+    try {
+      const items = await batch.fetchByIds(
+        Array.from(batch.ids),
+        batch.controller.signal,
+      );
+      const byId = new Map<string, BaseItem>();
+      for (const item of items) {
+        const id = batch.getItemId(item);
+        byId.set(String(id), item);
+        queryClient.setQueryData(getHydrationQueryKey(key, id), item);
+      }
+      releaseBatch(entity, batch);
+      batch.resolve(byId);
+    } catch (error) {
+      releaseBatch(entity, batch);
+      batch.reject(error);
+    }
+  };
+
+  const enqueue = (
+    request: HydrationRequest<BaseItem>,
+    entity: EntityState,
+    id: ItemId,
+  ): Batch => {
+    if (!entity.queued) {
+      const batch = createBatch(request);
+      entity.queued = batch;
+      setTimeout(() => flush(request.key, entity, batch), BATCH_DELAY_MS);
+    }
+    entity.queued.ids.add(id);
+    entity.inFlight.set(String(id), entity.queued);
+    return entity.queued;
+  };
+
+  const load = async <T extends BaseItem>(request: HydrationRequest<T>): Promise<T[]> => {
+    const { key, ids, signal } = request;
+    if (signal?.aborted) throw abortError(signal);
+
+    const entity = getEntity(key);
+    const found = new Map<string, BaseItem>();
+    const batches = new Set<Batch>();
+
+    for (const id of ids) {
+      const cached = queryClient.getQueryData<BaseItem>(getHydrationQueryKey(key, id));
+      if (cached) {
+        found.set(String(id), cached);
+        continue;
+      }
+      const batch =
+        entity.inFlight.get(String(id)) ??
+        enqueue(request as unknown as HydrationRequest<BaseItem>, entity, id);
+      batches.add(batch);
+    }
+
+    if (batches.size > 0) {
+      batches.forEach((batch) => {
+        batch.callers++;
+      });
+
+      let onAbort: (() => void) | undefined;
+      const aborted = new Promise<never>((_, reject) => {
+        if (!signal) return;
+        onAbort = () => reject(abortError(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+      });
+      aborted.catch(() => undefined);
+
+      try {
+        const results = await Promise.race([
+          Promise.all(Array.from(batches, (batch) => batch.promise)),
+          aborted,
+        ]);
+        results.forEach((byId) => {
+          byId.forEach((item, id) => found.set(id, item));
+        });
+      } finally {
+        if (onAbort) signal?.removeEventListener('abort', onAbort);
+        batches.forEach((batch) => {
+          batch.callers--;
+          // Abort a request nobody waits for anymore
+          if (batch.callers === 0 && batch.flushed && signal?.aborted) {
+            releaseBatch(entity, batch);
+            batch.controller.abort();
+          }
+        });
+      }
+    }
+
+    return ids
+      .map((id) => found.get(String(id)))
+      .filter((item): item is BaseItem => item !== undefined) as T[];
+  };
+
+  const clear = () => {
+    entities.forEach((entity) => {
+      const batches = new Set(entity.inFlight.values());
+      batches.forEach((batch) => {
+        batch.controller.abort();
+        batch.reject(new Error('[XSelect] Hydration scheduler cleared'));
+      });
+    });
+    entities.clear();
+  };
+
+  return { load, clear };
+}
+
+// ============================================================================
+// SHARED INSTANCES
+// ============================================================================
+
+const schedulers = new WeakMap<QueryClient, HydrationScheduler>();
+
+/**
+ * Scheduler shared by every select using `queryClient`.
+ */
+export function getHydrationScheduler(queryClient: QueryClient): HydrationScheduler {
+  let scheduler = schedulers.get(queryClient);
+  if (!scheduler) {
+    scheduler = createHydrationScheduler(queryClient);
+    schedulers.set(queryClient, scheduler);
+  }
+  return scheduler;
+}
@@ -5,11 +5,19 @@
  *
  * Features:
  * - Cascading/dependent select with automatic cascade delete
- * - Infinite scroll with React Query
+ * - Infinite scroll with React Query (offset or cursor pagination)
+ * - Batched hydration of selected values (one request per entity per tick)
+ * - Select all matching results (symbolic value or expanded ids)
  * - Static select with metadata support
+ * - Accent-insensitive fuzzy search with ranked results and match highlights
+ * - Web Worker filtering + virtual lists for very large option sets
  * - Framework-agnostic types (no UI library dependency)
  * - Optimized with useSyncExternalStore
  * - Support for single and multiple parent dependencies
+ * - Opt-in URL sync and pluggable persistence (localStorage / IndexedDB / server)
+ * - Two-way form adapters for antd, react-hook-form and Formik
+ * - Field chains as one Cascader / TreeSelect with lazy-loaded levels
+ * - Vanilla binding for plain `<select>` and `<x-select-form>` custom elements
  *
  * @example Basic cascading select
  * ```tsx
@@ -59,12 +67,31 @@ export type {
   XSelectOption,
   FormattedOption,
   FieldConfig,
+  FieldValidationRules,
+  FieldValidator,
+  OptionsLoadContext,
+  AsyncOptionsLoader,
+  OptionsCacheConfig,
+  CascadePolicy,
+  CascadePolicyName,
+  CascadePolicyKind,
+  CascadeResolver,
+  CascadeResolverContext,
+  DefaultValueResolver,
+  ComputeValue,
+  FieldRule,
   FieldValues,
   FormAdapter,
+  RowChange,
+  FieldMeta,
   FieldSnapshot,
   FieldRelationship,
   RelationshipMap,
+  FieldConfigIssue,
+  FieldConfigIssueCode,
   StoreListener,
+  HistoryState,
+  XSelectStoreOptions,
   TypedOption,
   TypedOptionWithParent,
   SelectValue,
@@ -82,12 +109,31 @@ export type {
   StoreEventPayloadMap,
   StoreEventListener,
 
+  // Persistence types
+  PersistedSelection,
+  PersistenceDriver,
+  PersistenceOptions,
+
+  // Search types
+  MatchRange,
+  SearchMatch,
+  SearchEngine,
+  SearchKey,
+  SearchMatcherOptions,
+  SearchMatcher,
+  OptionsQuery,
+  OptionsSearchWorkerOptions,
+  OptionsSearchWorker,
+
   // Infinite select types
   BaseItem,
   InfiniteOption,
   FetchRequest,
   FetchResponse,
   InfiniteConfig,
+  AllMatchingValue,
+  HydrationRequest,
+  HydrationScheduler,
   UseInfiniteSelectResult,
   DependentInjectedProps,
   InfiniteInjectedProps,
@@ -116,6 +162,7 @@ export {
 
   // Action hooks
   useXSelectActions,
+  useXSelectHistory,
   useXSelectConfig,
 
   // Field hooks
@@ -125,6 +172,12 @@ export {
   useXSelectParentValue,
   useXSelectValues,
 
+  // Field array hooks
+  useXSelectFieldArray,
+
+  // Event hooks
+  useXSelectEvent,
+
   // Context (advanced)
   XSelectStoreContext,
 } from './contexts';
@@ -133,14 +186,116 @@ export type {
   XSelectProviderProps,
   UseXSelectFieldOptions,
   UseXSelectFieldResult,
+  UseXSelectFieldArrayResult,
 } from './contexts';
 
 // ============================================================================
 // HOOKS
 // ============================================================================
 
-export { useInfiniteSelect } from './hooks';
-export type { UseInfiniteSelectOptions } from './hooks';
+export {
+  useInfiniteSelect,
+  useXSelectUrlSync,
+  parseUrlValues,
+  serializeUrlValues,
+  useXSelectPersistence,
+  useXSelectHierarchy,
+  useOptionsSearch,
+} from './hooks';
+export type {
+  UseInfiniteSelectOptions,
+  UrlSyncOptions,
+  UseOptionsSearchOptions,
+  UseOptionsSearchResult,
+  HierarchyNode,
+  HierarchyValue,
+  UseXSelectHierarchyResult,
+} from './hooks';
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export {
+  createLocalStorageDriver,
+  createIndexedDBDriver,
+  createSelectionsApiDriver,
+  readPersistedValues,
+  dropUnavailableValues,
+  createIdsResolver,
+} from './persistence';
+export type {
+  LocalStorageDriverOptions,
+  IndexedDBDriverOptions,
+  SelectionsApiDriverOptions,
+  RestoreSource,
+} from './persistence';
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+export {
+  createSearchMatcher,
+  foldText,
+  splitByRanges,
+  createOptionsSearchWorker,
+} from './search';
+
+// ============================================================================
+// HYDRATION
+// ============================================================================
+
+export {
+  createHydrationScheduler,
+  getHydrationQueryKey,
+  getHydrationScheduler,
+  fetchItemsByIds,
+  findMissingIds,
+} from './hydration';
+export type { FetchItemsByIdsOptions, HydrationSource } from './hydration';
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+export {
+  isAllMatchingValue,
+  createAllMatchingValue,
+  isAllMatchingView,
+  narrowAllMatchingValue,
+  expandAllMatching,
+  DEFAULT_EXPAND_BATCH_SIZE,
+} from './selection';
+export type { ExpandAllMatchingOptions } from './selection';
+
+// ============================================================================
+// VANILLA (non-React)
+// ============================================================================
+
+export {
+  bindSelect,
+  forwardStoreEvents,
+  defineXSelectElements,
+  DOM_EVENT_PREFIX,
+} from './vanilla';
+export type {
+  BindSelectOptions,
+  XSelectDomEvent,
+  XSelectFormElement,
+  XSelectFieldElement,
+} from './vanilla';
+
+// ============================================================================
+// FORM ADAPTERS
+// ============================================================================
+
+export { createAntdAdapter, createRHFAdapter, createFormikAdapter } from './adapters';
+export type {
+  AntdAdapterOptions,
+  RHFAdapterOptions,
+  FormikAdapterOptions,
+} from './adapters';
 
 // ============================================================================
 // COMPONENTS
@@ -154,11 +309,17 @@ export {
   DependentWrapper,
   InfiniteWrapper,
   StaticWrapper,
+  FieldWrapper,
+  CascaderWrapper,
+  TreeWrapper,
 
   // Context
   DependentContext,
   useDependentContext,
 
+  // Virtual list
+  VirtualList,
+
   // Error Recovery
   ErrorDisplay,
   XSelectErrorBoundary,
@@ -171,6 +332,15 @@ export type {
   StaticWrapperProps,
   StaticInjectedProps,
   StaticOption,
+  FieldWrapperProps,
+  CascaderWrapperProps,
+  CascaderInjectedProps,
+  CascaderOption,
+  TreeWrapperProps,
+  TreeInjectedProps,
+  TreeOption,
+  VirtualListConfig,
+  VirtualListProps,
 
   // Error types
   ErrorDisplayProps,
@@ -189,9 +359,20 @@ export type {
 export {
   // Relationship mapping
   buildRelationshipMap,
+  validateFieldConfigs,
+  XSelectConfigError,
   getDescendants,
   createDescendantsGetter,
   normalizeDependsOn,
+  sortFieldsByDependency,
+
+  // Field arrays
+  getFieldArrayName,
+  toRowFieldName,
+  parseRowFieldName,
+  toFormListPath,
+  toFieldArrayName,
+  applyRowChange,
 
   // Options filtering
   filterOptionsByParent,
@@ -203,6 +384,10 @@ export {
   createCascadeDelete,
   getRemovedValues,
 
+  // Validation
+  validateFieldRules,
+  normalizeValidationResult,
+
   // Value comparison
   areValuesEqual,
   areArraysEqualUnordered,
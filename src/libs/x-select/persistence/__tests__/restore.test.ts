@@ -0,0 +1,112 @@
+/**
+ * Persistence restore - option checks of restored values
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { XSelectStore } from '../../store';
+import type { FieldConfig, XSelectOption } from '../../types';
+import { createIdsResolver, dropUnavailableValues } from '../restore';
+
+const country: FieldConfig = {
+  name: 'country',
+  options: [
+    { label: 'Vietnam', value: 'vn' },
+    { label: 'France', value: 'fr' },
+  ],
+};
+
+const cityOptions: Record<string, XSelectOption[]> = {
+  vn: [{ label: 'Hanoi', value: 'hn' }],
+  fr: [{ label: 'Paris', value: 'pa' }],
+};
+
+describe('dropUnavailableValues', () => {
+  it('checks async options through the store cache', async () => {
+    const signals: AbortSignal[] = [];
+    const city: FieldConfig = {
+      name: 'city',
+      dependsOn: 'country',
+      options: async (parentValue, { signal }) => {
+        signals.push(signal);
+        return cityOptions[parentValue as string];
+      },
+    };
+    const store = new XSelectStore([country, city]);
+
+    const { values, dropped } = await dropUnavailableValues(store, {
+      country: 'vn',
+      city: 'pa',
+    });
+
+    expect(values).toEqual({ country: 'vn', city: undefined });
+    expect(dropped).toEqual({ city: ['pa'] });
+
+    // The select shows what the restore check loaded
+    store.restoreValues({ country: 'vn' });
+    expect(signals).toHaveLength(1);
+    store.destroy();
+  });
+
+  it('aborts option checks with the caller signal', async () => {
+    const signals: AbortSignal[] = [];
+    const city: FieldConfig = {
+      name: 'city',
+      dependsOn: 'country',
+      options: (_, { signal }) =>
+        new Promise<XSelectOption[]>(() => {
+          signals.push(signal);
+        }),
+    };
+    const store = new XSelectStore([country, city]);
+    const controller = new AbortController();
+
+    const restored = dropUnavailableValues(
+      store,
+      { country: 'vn', city: 'hn' },
+      undefined,
+      controller.signal,
+    );
+    await new Promise((resolve) => {
+      setTimeout(resolve, 0);
+    });
+    controller.abort();
+
+    await expect(restored).rejects.toThrow();
+    expect(signals[0].aborted).toBe(true);
+    store.destroy();
+  });
+});
+
+describe('createIdsResolver', () => {
+  type User = { id: number; name: string };
+  type Project = { id: string; title: string };
+
+  it('keeps the ids its sources still return', async () => {
+    const users: User[] = [{ id: 1, name: 'Ann' }];
+    const projects: Project[] = [{ id: 'p1', title: 'Alpha' }];
+    const fetchList = async () => ({ data: [], total: 0 });
+
+    const resolve = createIdsResolver({
+      userId: {
+        fetchList,
+        fetchByIds: async (ids) => users.filter((u) => ids.includes(u.id)),
+        getItemLabel: (user: User) => user.name,
+      },
+      projectId: {
+        fetchList,
+        fetchByIds: async (ids) => projects.filter((p) => ids.includes(p.id)),
+        getItemLabel: (project: Project) => project.title,
+      },
+    });
+    const context = { signal: new AbortController().signal };
+
+    expect(await resolve('userId', null, [1, 2], context)).toEqual([
+      { value: 1, label: 'Ann' },
+    ]);
+    expect(await resolve('projectId', null, ['p1'], context)).toEqual([
+      { value: 'p1', label: 'Alpha' },
+    ]);
+    expect(await resolve('other', null, [1], context)).toBeUndefined();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * XSelect - Persistence Drivers
+ *
+ * Built-in storage drivers:
+ * - localStorage: synchronous, per-browser
+ * - IndexedDB: async, larger payloads
+ * - Selections API: server-side via `/api/selections` (SavedFilter table)
+ */
+
+import type { PersistedSelection, PersistenceDriver } from '../types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isPersistedSelection(data: unknown): data is PersistedSelection {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as PersistedSelection).version === 'number' &&
+    typeof (data as PersistedSelection).values === 'object' &&
+    (data as PersistedSelection).values !== null
+  );
+}
+
+/**
+ * Wrap raw (un-versioned) saved values as version 0 so `migrate` can upgrade them.
+ */
+function toPersistedSelection(data: unknown): PersistedSelection | null {
+  if (data === null || data === undefined) return null;
+  if (isPersistedSelection(data)) return data;
+  if (typeof data === 'object') {
+    return { version: 0, values: data as Record<string, unknown>, savedAt: 0 };
+  }
+  return null;
+}
+
+// ============================================================================
+// LOCAL STORAGE
+// ============================================================================
+
+export interface LocalStorageDriverOptions {
+  /** Key prefix (default: 'x-select:') */
+  prefix?: string;
+
+  /** Storage instance (default: window.localStorage) */
+  storage?: Storage;
+}
+
+/**
+ * localStorage driver.
+ *
+ * @example
+ * ```tsx
+ * <XSelectProvider
+ *   configs={configs}
+ *   persistence={{ key: 'table-filters', driver: createLocalStorageDriver() }}
+ * />
+ * ```
+ */
+export function createLocalStorageDriver(
+  options: LocalStorageDriverOptions = {},
+): PersistenceDriver {
+  const { prefix = 'x-select:' } = options;
+  const getStorage = () =>
+    options.storage ?? (typeof window !== 'undefined' ? window.localStorage : undefined);
+
+  return {
+    load: (key) => {
+      const raw = getStorage()?.getItem(`${prefix}${key}`);
+      if (!raw) return null;
+
+      try {
+        return toPersistedSelection(JSON.parse(raw));
+      } catch {
+        return null;
+      }
+    },
+    save: (key, data) => {
+      getStorage()?.setItem(`${prefix}${key}`, JSON.stringify(data));
+    },
+    remove: (key) => {
+      getStorage()?.removeItem(`${prefix}${key}`);
+    },
+  };
+}
+
+// ============================================================================
+// INDEXED DB
+// ============================================================================
+
+export interface IndexedDBDriverOptions {
+  /** Database name (default: 'x-select') */
+  dbName?: string;
+
+  /** Object store name (default: 'selections') */
+  storeName?: string;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB driver.
+ */
+export function createIndexedDBDriver(
+  options: IndexedDBDriverOptions = {},
+): PersistenceDriver {
+  const { dbName = 'x-select', storeName = 'selections' } = options;
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      dbPromise = promisifyRequest(request).catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return promisifyRequest(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    load: async (key) => {
+      const data = await withStore<unknown>('readonly', (store) => store.get(key));
+      return toPersistedSelection(data);
+    },
+    save: async (key, data) => {
+      await withStore('readwrite', (store) => store.put(data, key));
+    },
+    remove: async (key) => {
+      await withStore('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+// ============================================================================
+// SELECTIONS API
+// ============================================================================
+
+export interface SelectionsApiDriverOptions {
+  /** Endpoint (default: '/api/selections') */
+  endpoint?: string;
+}
+
+/**
+ * Server driver backed by `/api/selections` (one SavedFilter row per page).
+ * The storage key is used as the `page` identifier.
+ * Selections saved before versioning are loaded as version 0.
+ */
+export function createSelectionsApiDriver(
+  options: SelectionsApiDriverOptions = {},
+): PersistenceDriver {
+  const { endpoint = '/api/selections' } = options;
+
+  return {
+    load: async (key) => {
+      const res = await fetch(`${endpoint}?page=${encodeURIComponent(key)}`);
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error ?? `Failed to load selections for "${key}"`);
+      }
+      return toPersistedSelection(data.data);
+    },
+    save: async (key, selection) => {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ page: key, selections: selection }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+    },
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * XSelect - Persistence Exports
+ */
+
+export {
+  createLocalStorageDriver,
+  createIndexedDBDriver,
+  createSelectionsApiDriver,
+} from './drivers';
+export type {
+  LocalStorageDriverOptions,
+  IndexedDBDriverOptions,
+  SelectionsApiDriverOptions,
+} from './drivers';
+
+export { readPersistedValues, dropUnavailableValues, createIdsResolver } from './restore';
+export type { RestoreSource } from './restore';
@@ -0,0 +1,234 @@
+/**
+ * XSelect - Persistence Restore Helpers
+ *
+ * - Load + migrate persisted values
+ * - Drop restored values that no longer exist in the field's options
+ * - Check restored ids of infinite fields with their hydration fetchers
+ */
+
+import type { QueryClient } from '@tanstack/react-query';
+
+import { fetchItemsByIds } from '../hydration';
+import type { FetchItemsByIdsOptions, HydrationSource } from '../hydration';
+import { isAllMatchingValue } from '../selection';
+import type { XSelectStore } from '../store';
+import type {
+  BaseItem,
+  FieldValues,
+  InfiniteConfig,
+  PersistenceOptions,
+  XSelectOption,
+} from '../types';
+import {
+  filterOptionsByParent,
+  normalizeDependsOn,
+  normalizeToArray,
+  sortFieldsByDependency,
+} from '../utils';
+
+// ============================================================================
+// LOAD
+// ============================================================================
+
+/**
+ * Load persisted values and migrate them to the current version.
+ * Resolves null when nothing usable is stored.
+ */
+export async function readPersistedValues(
+  options: PersistenceOptions,
+): Promise<FieldValues | null> {
+  const { key, driver, version = 1, migrate, fields } = options;
+
+  const persisted = await driver.load(key);
+  if (!persisted) return null;
+
+  let values: FieldValues | null = persisted.values;
+
+  if (persisted.version !== version) {
+    // No migration path → stale data is discarded
+    values = migrate ? await migrate(persisted.values, persisted.version) : null;
+  }
+
+  if (!values) return null;
+  if (!fields) return values;
+
+  const picked: FieldValues = {};
+  for (const name of fields) {
+    if (name in values) picked[name] = values[name];
+  }
+  return picked;
+}
+
+// ============================================================================
+// OPTION CHECK
+// ============================================================================
+
+/** Infinite field config used to verify restored ids */
+export type RestoreSource<T extends BaseItem = BaseItem> = HydrationSource<T> &
+  Pick<InfiniteConfig<T>, 'getItemLabel'>;
+
+/**
+ * Options of the restored ids its source still returns.
+ */
+async function resolveIdOptions<T extends BaseItem>(
+  source: RestoreSource<T>,
+  ids: Array<string | number>,
+  options: FetchItemsByIdsOptions,
+): Promise<XSelectOption[]> {
+  const items = await fetchItemsByIds(source, ids, options);
+
+  const getItemId = source.getItemId ?? ((item: T) => item.id);
+  const getItemLabel = source.getItemLabel ?? ((item: T) => String(item.id));
+  return items.map((item) => ({ value: getItemId(item), label: getItemLabel(item) }));
+}
+
+/**
+ * `resolveOptions` for infinite fields: restored ids are hydrated the same
+ * way the select hydrates them, so ids whose rows were deleted are dropped
+ * (and reported through `onRestore`) instead of showing up as raw ids.
+ * With `queryClient`, sources with a `hydrationKey` are batched and the
+ * fetched items are cached for the selects.
+ *
+ * @example
+ * ```ts
+ * persistence={{
+ *   key: 'table-filters',
+ *   driver: createSelectionsApiDriver(),
+ *   resolveOptions: createIdsResolver({ userIds: userSource }, queryClient),
+ * }}
+ * ```
+ */
+export function createIdsResolver<TItems extends Record<string, BaseItem>>(
+  sources: { [K in keyof TItems]: RestoreSource<TItems[K]> },
+  queryClient?: QueryClient,
+): NonNullable<PersistenceOptions['resolveOptions']> {
+  return async (fieldName, parentValue, values, context) => {
+    const source = sources[fieldName as keyof TItems] as
+      | RestoreSource<TItems[keyof TItems]>
+      | undefined;
+    if (!source) return undefined;
+
+    const ids = values.filter(
+      (v): v is string | number => typeof v === 'string' || typeof v === 'number',
+    );
+    return resolveIdOptions(source, ids, {
+      parentValue,
+      queryClient,
+      signal: context.signal,
+    });
+  };
+}
+
+function getParentValue(parentNames: string[], values: FieldValues): unknown {
+  if (parentNames.length === 0) return null;
+  if (parentNames.length === 1) return values[parentNames[0]];
+
+  const result: Record<string, unknown> = {};
+  for (const name of parentNames) {
+    result[name] = values[name];
+  }
+  return result;
+}
+
+/**
+ * Resolve the options a restored value must belong to.
+ * Returns undefined when options are unknown (value is kept unchecked).
+ */
+async function resolveAvailableOptions(
+  store: XSelectStore,
+  fieldName: string,
+  parentValue: unknown,
+  requested: unknown[],
+  resolveOptions: PersistenceOptions['resolveOptions'],
+  signal: AbortSignal,
+): Promise<XSelectOption[] | undefined> {
+  const config = store.getConfig(fieldName);
+  if (!config) return undefined;
+
+  const custom = await resolveOptions?.(fieldName, parentValue, requested, { signal });
+  if (custom) return custom;
+
+  let options: XSelectOption[] | undefined;
+
+  if (typeof config.options === 'function') {
+    // Through the field's options cache - the select reuses what restore loaded
+    options = await store.fetchOptions(fieldName, parentValue, { signal });
+  } else if (config.options) {
+    options = config.options;
+  } else {
+    const external = store.getOptions(fieldName);
+    options = external.length > 0 ? external : undefined;
+  }
+
+  if (!options || !config.dependsOn || typeof config.options === 'function') {
+    return options;
+  }
+
+  // Static options linked via parentValue must match the restored parent
+  const hasParentLinks = options.some((o) => o.parentValue !== undefined);
+  if (!hasParentLinks) return options;
+
+  const filterFn = config.filterOptions ?? filterOptionsByParent;
+  return filterFn(options, parentValue);
+}
+
+/**
+ * Drop restored values that are no longer available.
+ * Fields are checked in dependency order, so children are checked against
+ * their already-sanitized parents. Rejects when `signal` aborts.
+ */
+export async function dropUnavailableValues(
+  store: XSelectStore,
+  values: FieldValues,
+  resolveOptions?: PersistenceOptions['resolveOptions'],
+  signal: AbortSignal = new AbortController().signal,
+): Promise<{ values: FieldValues; dropped: Record<string, unknown[]> }> {
+  const result: FieldValues = { ...values };
+  const dropped: Record<string, unknown[]> = {};
+  const currentValues = store.getValues();
+
+  for (const fieldName of sortFieldsByDependency(store.getConfigs())) {
+    if (!(fieldName in result)) continue;
+
+    const value = result[fieldName];
+    // Symbolic "all matching" values are resolved by the server, not by ids
+    if (isAllMatchingValue(value)) continue;
+
+    const requested = normalizeToArray(value);
+    if (requested.length === 0) continue;
+
+    const config = store.getConfig(fieldName)!;
+    const parentValue = getParentValue(normalizeDependsOn(config.dependsOn), {
+      ...currentValues,
+      ...result,
+    });
+
+    let options: XSelectOption[] | undefined;
+    try {
+      options = await resolveAvailableOptions(
+        store,
+        fieldName,
+        parentValue,
+        requested,
+        resolveOptions,
+        signal,
+      );
+    } catch (error) {
+      signal.throwIfAborted();
+      console.error(`[XSelect] Failed to verify restored "${fieldName}":`, error);
+      continue;
+    }
+
+    if (!options) continue;
+
+    // String compare - a saved "42" still matches option 42
+    const available = new Set(options.map((o) => String(o.value)));
+    const kept = requested.filter((v) => available.has(String(v)));
+    if (kept.length === requested.length) continue;
+
+    dropped[fieldName] = requested.filter((v) => !available.has(String(v)));
+    result[fieldName] = Array.isArray(value) ? kept : undefined;
+  }
+
+  return { values: result, dropped };
+}
@@ -0,0 +1,87 @@
+/**
+ * Options search worker client - worker messaging and main-thread fallback
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { XSelectOption } from '../../types';
+import type { OptionsWorkerRequest } from '../optionsQuery';
+import { createOptionsSearchWorker } from '../workerClient';
+
+/** Worker stand-in: records posted messages, events are dispatched by hand */
+class FakeWorker extends EventTarget {
+  posted: OptionsWorkerRequest[] = [];
+  terminated = false;
+
+  postMessage(message: OptionsWorkerRequest) {
+    this.posted.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const options: XSelectOption[] = [
+  { label: 'Hanoi', value: 'hn', parentValue: 'vn' },
+  { label: 'Hue', value: 'hue', parentValue: 'vn' },
+  { label: 'Paris', value: 'pa', parentValue: 'fr' },
+];
+
+describe('createOptionsSearchWorker', () => {
+  let fake: FakeWorker;
+
+  beforeEach(() => {
+    // The client only uses a worker where the global exists
+    vi.stubGlobal('Worker', FakeWorker);
+    fake = new FakeWorker();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createClient = () =>
+    createOptionsSearchWorker({ createWorker: () => fake as unknown as Worker });
+
+  it('resolves queries with the options the worker matched', async () => {
+    const client = createClient();
+    client.load(options);
+
+    const result = client.query({ filterByParent: true, parentValue: 'vn', query: '' });
+    const { requestId } = fake.posted[1] as Extract<OptionsWorkerRequest, { type: 'query' }>;
+    fake.dispatchEvent(
+      new MessageEvent('message', {
+        data: { requestId, result: { indices: [1], scores: [1], ranges: [[]] } },
+      }),
+    );
+
+    expect((await result).map((match) => match.option.value)).toEqual(['hue']);
+  });
+
+  it('rejects pending queries when the worker fails and searches on the main thread', async () => {
+    const client = createClient();
+    client.load(options);
+
+    const pending = client.query({ filterByParent: false, query: 'paris' });
+    fake.dispatchEvent(new Event('error'));
+
+    await expect(pending).rejects.toThrow('Options worker failed');
+    expect(fake.terminated).toBe(true);
+
+    const matches = await client.query({ filterByParent: true, parentValue: 'vn', query: '' });
+    expect(matches.map((match) => match.option.value)).toEqual(['hn', 'hue']);
+  });
+
+  it('falls back on an unreadable worker message', async () => {
+    const client = createClient();
+    client.load(options);
+
+    const pending = client.query({ filterByParent: false, query: 'hue' });
+    fake.dispatchEvent(new MessageEvent('messageerror'));
+
+    await expect(pending).rejects.toThrow();
+    const matches = await client.query({ filterByParent: false, query: 'paris' });
+    expect(matches.map((match) => match.option.value)).toEqual(['pa']);
+  });
+});
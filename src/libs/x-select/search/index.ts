@@ -0,0 +1,7 @@
+/**
+ * XSelect - Search Exports
+ */
+
+export { createSearchMatcher, foldText, splitByRanges } from './matcher';
+
+export { createOptionsSearchWorker } from './workerClient';
@@ -0,0 +1,402 @@
+/**
+ * XSelect - Search Matcher
+ *
+ * Default search engine for static options:
+ * - Unicode normalization + diacritic folding ("Ho Chi Minh" finds "Hồ Chí Minh")
+ * - Every query token must match: word prefix > substring > one typo > subsequence
+ * - Searches any option keys (label, description, `meta.*`) with weights
+ * - Ranked results with highlight ranges in the original text
+ */
+
+import type {
+  MatchRange,
+  SearchKey,
+  SearchMatch,
+  SearchMatcher,
+  SearchMatcherOptions,
+  XSelectOption,
+} from '../types';
+
+// ============================================================================
+// TEXT FOLDING
+// ============================================================================
+
+/** Letters that do not decompose under NFD (after lowercasing) */
+const SPECIAL_FOLDS: Record<string, string> = {
+  đ: 'd',
+  ð: 'd',
+  ø: 'o',
+  ł: 'l',
+  ı: 'i',
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  þ: 'th',
+};
+
+const COMBINING_MARKS = /\p{M}/gu;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+interface FoldedText {
+  text: string;
+
+  /** Original index of every folded char, plus the original length */
+  offsets: number[];
+}
+
+function foldChar(char: string): string {
+  const lower = char.toLowerCase();
+  return SPECIAL_FOLDS[lower] ?? lower.normalize('NFD').replace(COMBINING_MARKS, '');
+}
+
+function foldWithOffsets(text: string): FoldedText {
+  let folded = '';
+  const offsets: number[] = [];
+  let index = 0;
+
+  for (const char of text) {
+    const part = foldChar(char);
+    folded += part;
+    for (let i = 0; i < part.length; i++) offsets.push(index);
+    index += char.length;
+  }
+  offsets.push(index);
+
+  return { text: folded, offsets };
+}
+
+/**
+ * Fold text for matching - lowercase, diacritics removed
+ * (`foldText('Hồ Chí Minh') === 'ho chi minh'`).
+ */
+export function foldText(text: string): string {
+  return foldWithOffsets(text).text;
+}
+
+function tokenize(query: string): string[] {
+  return foldText(query).split(/\s+/).filter(Boolean);
+}
+
+// ============================================================================
+// TOKEN MATCHING
+// ============================================================================
+
+const SCORES = {
+  exact: 1,
+  prefix: 0.95,
+  wordPrefix: 0.85,
+  substring: 0.7,
+  typo: 0.5,
+  subsequence: 0.3,
+};
+
+/** Shorter tokens only match exactly (typos would match almost anything) */
+const MIN_TYPO_LENGTH = 4;
+
+/** Folded ranges [start, end) */
+type FoldedRange = [number, number];
+
+interface TokenMatch {
+  score: number;
+  ranges: FoldedRange[];
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return WORD_CHAR.test(text[index]) && (index === 0 || !WORD_CHAR.test(text[index - 1]));
+}
+
+function matchSubstring(text: string, token: string): TokenMatch | null {
+  let first = -1;
+
+  let index = text.indexOf(token);
+  while (index !== -1) {
+    if (isWordStart(text, index)) {
+      let score = SCORES.wordPrefix;
+      if (index === 0) {
+        score = token.length === text.length ? SCORES.exact : SCORES.prefix;
+      }
+      return { score, ranges: [[index, index + token.length]] };
+    }
+    if (first === -1) first = index;
+    index = text.indexOf(token, index + 1);
+  }
+
+  if (first === -1) return null;
+  return { score: SCORES.substring, ranges: [[first, first + token.length]] };
+}
+
+/** Restricted Damerau-Levenshtein distance <= 1 */
+function isWithinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+
+    if (a.length > b.length) i++;
+    else if (a.length < b.length) j++;
+    else if (a[i + 1] === b[j] && a[i] === b[j + 1]) {
+      // Transposition
+      i += 2;
+      j += 2;
+    } else {
+      i++;
+      j++;
+    }
+  }
+
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+function matchTypo(text: string, token: string): TokenMatch | null {
+  if (token.length < MIN_TYPO_LENGTH) return null;
+
+  for (let start = 0; start < text.length; start++) {
+    if (!isWordStart(text, start)) continue;
+
+    for (const length of [token.length, token.length - 1, token.length + 1]) {
+      const end = start + length;
+      if (end > text.length) continue;
+      if (isWithinOneEdit(token, text.slice(start, end))) {
+        return { score: SCORES.typo, ranges: [[start, end]] };
+      }
+    }
+  }
+
+  return null;
+}
+
+function matchSubsequence(text: string, token: string): TokenMatch | null {
+  const ranges: FoldedRange[] = [];
+  let position = 0;
+
+  for (let i = 0; i < token.length; i++) {
+    const index = text.indexOf(token[i], position);
+    if (index === -1) return null;
+
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === index) last[1] = index + 1;
+    else ranges.push([index, index + 1]);
+    position = index + 1;
+  }
+
+  // Tighter spans score higher
+  const span = ranges[ranges.length - 1][1] - ranges[0][0];
+  return { score: SCORES.subsequence * (token.length / span), ranges };
+}
+
+function matchToken(text: string, token: string, fuzzy: boolean): TokenMatch | null {
+  const match = matchSubstring(text, token);
+  if (match || !fuzzy) return match;
+  return matchTypo(text, token) ?? matchSubsequence(text, token);
+}
+
+// ============================================================================
+// RANGES
+// ============================================================================
+
+function toOriginalRanges(folded: FoldedText, ranges: FoldedRange[]): MatchRange[] {
+  const { text, offsets } = folded;
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: FoldedRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  }
+
+  return merged.map(([start, end]) => {
+    // Folded chars of one original char (ß → ss) highlight it as a whole
+    let next = end;
+    while (next < text.length && offsets[next] === offsets[end - 1]) next++;
+    return { start: offsets[start], end: offsets[next] };
+  });
+}
+
+/**
+ * Split text into matched / unmatched parts for rendering highlights.
+ *
+ * @example
+ * ```tsx
+ * splitByRanges(option.label, getHighlights(option.value)).map((part, i) =>
+ *   part.matched ? <mark key={i}>{part.text}</mark> : part.text,
+ * );
+ * ```
+ */
+export function splitByRanges(
+  text: string,
+  ranges: readonly MatchRange[],
+): Array<{ text: string; matched: boolean }> {
+  const parts: Array<{ text: string; matched: boolean }> = [];
+  let position = 0;
+
+  for (const { start, end } of ranges) {
+    if (start > position) {
+      parts.push({ text: text.slice(position, start), matched: false });
+    }
+    if (end > start) parts.push({ text: text.slice(start, end), matched: true });
+    position = Math.max(position, end);
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), matched: false });
+
+  return parts;
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+export interface ResolvedKey<T> {
+  name: string;
+  get: (option: T) => unknown;
+  weight: number;
+}
+
+function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, part) =>
+      value === null || value === undefined
+        ? undefined
+        : (value as Record<string, unknown>)[part],
+    source,
+  );
+}
+
+/** Searched text of a key value (strings, numbers, arrays of them) */
+export function toSearchText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(toSearchText).filter(Boolean).join(' ');
+  return '';
+}
+
+export function resolveSearchKey<T extends XSelectOption>(
+  key: SearchKey<T>,
+): ResolvedKey<T> {
+  if (typeof key === 'string') {
+    return { name: key, get: (option) => getPath(option, key), weight: 1 };
+  }
+  return {
+    name: key.name,
+    get: key.get ?? ((option) => getPath(option, key.name)),
+    weight: key.weight ?? 1,
+  };
+}
+
+// ============================================================================
+// MATCHER
+// ============================================================================
+
+/**
+ * Create the default search engine.
+ * Usable as `StaticWrapper`'s `searchEngine`, in `filterOption` props
+ * (`matcher.test`) and in `filterOptions` configs (`matcher.filter`).
+ *
+ * NOTE: Folded texts are cached per option object - replace options
+ * instead of mutating them.
+ *
+ * @example
+ * ```ts
+ * const cityMatcher = createSearchMatcher<CityOption>({
+ *   keys: ['label', { name: 'meta.aliases', weight: 0.8 }],
+ * });
+ *
+ * cityMatcher.filter(cities, 'ho chi minh'); // [Hồ Chí Minh, ...]
+ *
+ * // In a config (query kept outside the store)
+ * const cityConfig = {
+ *   name: 'city',
+ *   dependsOn: 'province',
+ *   options: cities,
+ *   filterOptions: (options, parentValue) =>
+ *     cityMatcher.filter(filterOptionsByParent(options, parentValue), cityQuery),
+ * };
+ * ```
+ */
+export function createSearchMatcher<T extends XSelectOption = XSelectOption>(
+  options: SearchMatcherOptions<T> = {},
+): SearchMatcher<T> {
+  const { fuzzy = true, threshold = 0, limit } = options;
+  const keys = (options.keys ?? ['label']).map(resolveSearchKey);
+  const foldedCache = new WeakMap<T, FoldedText[]>();
+
+  const getFoldedTexts = (option: T): FoldedText[] => {
+    let folded = foldedCache.get(option);
+    if (!folded) {
+      folded = keys.map((key) => foldWithOffsets(toSearchText(key.get(option))));
+      foldedCache.set(option, folded);
+    }
+    return folded;
+  };
+
+  const matchTokens = (option: T, tokens: string[]): SearchMatch<T> | null => {
+    if (tokens.length === 0) return { option, score: 0, ranges: {} };
+
+    const texts = getFoldedTexts(option);
+    const rangesByKey = new Map<number, FoldedRange[]>();
+    let total = 0;
+
+    for (const token of tokens) {
+      let best: { score: number; keyIndex: number; ranges: FoldedRange[] } | null = null;
+
+      for (let keyIndex = 0; keyIndex < keys.length; keyIndex++) {
+        const { text } = texts[keyIndex];
+        const match = text ? matchToken(text, token, fuzzy) : null;
+        if (!match) continue;
+
+        const score = match.score * keys[keyIndex].weight;
+        if (!best || score > best.score) best = { score, keyIndex, ranges: match.ranges };
+      }
+
+      // Every token must match somewhere
+      if (!best) return null;
+
+      total += best.score;
+      const keyRanges = rangesByKey.get(best.keyIndex) ?? [];
+      keyRanges.push(...best.ranges);
+      rangesByKey.set(best.keyIndex, keyRanges);
+    }
+
+    const score = total / tokens.length;
+    if (score < threshold) return null;
+
+    const ranges: Record<string, MatchRange[]> = {};
+    for (const [keyIndex, keyRanges] of rangesByKey) {
+      ranges[keys[keyIndex].name] = toOriginalRanges(texts[keyIndex], keyRanges);
+    }
+
+    return { option, score, ranges };
+  };
+
+  const search = (items: readonly T[], query: string): SearchMatch<T>[] => {
+    const tokens = tokenize(query);
+    const results: Array<{ match: SearchMatch<T>; index: number }> = [];
+
+    items.forEach((item, index) => {
+      const match = matchTokens(item, tokens);
+      if (match) results.push({ match, index });
+    });
+
+    // Best first, original order on ties
+    results.sort((a, b) => b.match.score - a.match.score || a.index - b.index);
+
+    const ranked = results.map(({ match }) => match);
+    return limit === undefined ? ranked : ranked.slice(0, limit);
+  };
+
+  return {
+    search,
+    match: (option, query) => matchTokens(option, tokenize(query)),
+    test: (option, query) => matchTokens(option, tokenize(query)) !== null,
+    filter: (items, query) => search(items, query).map(({ option }) => option),
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * XSelect - Indexed Options Query
+ *
+ * Parent filtering + search over a pre-built index, shared by the options
+ * worker and its main-thread fallback:
+ * - Options are sent as plain records (searched texts + parentValue), so
+ *   rich options (icons, meta) never cross the worker boundary
+ * - Parent → options index built once per dataset
+ * - Results are option indices (+ highlight ranges), in search rank order
+ */
+
+import type { MatchRange, OptionsQuery, XSelectOption } from '../types';
+import { createOptionsFilter } from '../utils';
+import { createSearchMatcher } from './matcher';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Serializable option record.
+ */
+export interface OptionsRecord {
+  parentValue?: XSelectOption['parentValue'];
+
+  /** Searched texts by key name */
+  texts: Record<string, string>;
+}
+
+export interface OptionsDataset {
+  records: OptionsRecord[];
+  keys: Array<{ name: string; weight: number }>;
+  fuzzy: boolean;
+}
+
+export interface OptionsQueryResult {
+  indices: number[];
+  scores: number[];
+
+  /** Highlight ranges per result (empty without a query) */
+  ranges: Array<Record<string, MatchRange[]>>;
+}
+
+/** Worker protocol */
+export type OptionsWorkerRequest =
+  | { type: 'load'; dataset: OptionsDataset }
+  | { type: 'query'; requestId: number; request: OptionsQuery };
+
+export type OptionsWorkerResponse =
+  | { requestId: number; result: OptionsQueryResult }
+  | { requestId: number; error: string };
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+interface IndexedRecord extends XSelectOption {
+  /** Index in the dataset */
+  value: number;
+  record: OptionsRecord;
+}
+
+function isEmptyParent(parentValue: unknown): boolean {
+  if (parentValue === undefined || parentValue === null) return true;
+  return Array.isArray(parentValue) && parentValue.length === 0;
+}
+
+/**
+ * Build the index of a dataset. Returns the query function.
+ */
+export function createOptionsQuery(
+  dataset: OptionsDataset,
+): (request: OptionsQuery) => OptionsQueryResult {
+  const indexed: IndexedRecord[] = dataset.records.map((record, index) => ({
+    label: '',
+    value: index,
+    parentValue: record.parentValue,
+    record,
+  }));
+  const unconstrained = indexed.filter(
+    (item) => item.parentValue === undefined || item.parentValue === null,
+  );
+
+  const filterByParent = createOptionsFilter(indexed);
+  const matcher = createSearchMatcher<IndexedRecord>({
+    keys: dataset.keys.map(({ name, weight }) => ({
+      name,
+      weight,
+      get: (item) => item.record.texts[name],
+    })),
+    fuzzy: dataset.fuzzy,
+  });
+
+  return (request) => {
+    let candidates = indexed;
+
+    if (request.filterByParent) {
+      const matched = filterByParent(request.parentValue);
+      const keepUnconstrained =
+        request.keepUnconstrained && !isEmptyParent(request.parentValue);
+      candidates = keepUnconstrained ? [...matched, ...unconstrained] : matched;
+      // Original order (multi-parent lookups are unordered)
+      candidates = [...candidates].sort((a, b) => a.value - b.value);
+    }
+
+    if (!request.query.trim()) {
+      const limited =
+        request.limit === undefined ? candidates : candidates.slice(0, request.limit);
+      return {
+        indices: limited.map((item) => item.value),
+        scores: limited.map(() => 0),
+        ranges: limited.map(() => ({})),
+      };
+    }
+
+    const matches = matcher.search(candidates, request.query);
+    const limited =
+      request.limit === undefined ? matches : matches.slice(0, request.limit);
+
+    return {
+      indices: limited.map((match) => match.option.value),
+      scores: limited.map((match) => match.score),
+      ranges: limited.map((match) => match.ranges),
+    };
+  };
+}
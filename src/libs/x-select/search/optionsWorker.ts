@@ -0,0 +1,42 @@
+/**
+ * XSelect - Options Worker Entry
+ *
+ * Runs `createOptionsQuery` off the main thread (see `createOptionsSearchWorker`).
+ * One dataset per worker - a new `load` replaces the index.
+ */
+
+import { createOptionsQuery } from './optionsQuery';
+import type { OptionsQuery } from '../types';
+import type {
+  OptionsQueryResult,
+  OptionsWorkerRequest,
+  OptionsWorkerResponse,
+} from './optionsQuery';
+
+// `self` is typed as Window (dom lib) - only the worker API is used
+const scope = self as unknown as {
+  postMessage: (message: OptionsWorkerResponse) => void;
+  addEventListener: (
+    type: 'message',
+    listener: (event: MessageEvent<OptionsWorkerRequest>) => void,
+  ) => void;
+};
+
+let query: ((request: OptionsQuery) => OptionsQueryResult) | null = null;
+
+scope.addEventListener('message', ({ data }) => {
+  if (data.type === 'load') {
+    query = createOptionsQuery(data.dataset);
+    return;
+  }
+
+  try {
+    if (!query) throw new Error('No options loaded');
+    scope.postMessage({ requestId: data.requestId, result: query(data.request) });
+  } catch (error) {
+    scope.postMessage({
+      requestId: data.requestId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -0,0 +1,159 @@
+/**
+ * XSelect - Options Search Worker Client
+ *
+ * Parent filtering + search for very large option sets (20k+ postal codes,
+ * SKUs) in a Web Worker. The worker keeps a parent → options index, so a
+ * parent change or keystroke never blocks the main thread.
+ *
+ * Falls back to the same index on the main thread where `Worker` is not
+ * available (SSR, tests), or once the worker fails (script load error, crash).
+ */
+
+import type {
+  OptionsQuery,
+  OptionsSearchWorker,
+  OptionsSearchWorkerOptions,
+  SearchMatch,
+  XSelectOption,
+} from '../types';
+import { resolveSearchKey, toSearchText } from './matcher';
+import { createOptionsQuery } from './optionsQuery';
+import type {
+  OptionsDataset,
+  OptionsQueryResult,
+  OptionsWorkerRequest,
+  OptionsWorkerResponse,
+} from './optionsQuery';
+
+interface PendingQuery {
+  resolve: (result: OptionsQueryResult) => void;
+  reject: (error: Error) => void;
+}
+
+const EMPTY_RESULT: OptionsQueryResult = { indices: [], scores: [], ranges: [] };
+
+function createDefaultWorker(): Worker {
+  return new Worker(new URL('./optionsWorker.ts', import.meta.url));
+}
+
+/**
+ * Create an options worker - one option set per worker.
+ *
+ * @example
+ * ```ts
+ * const postalCodes = createOptionsSearchWorker<PostalCodeOption>({
+ *   keys: ['label', 'meta.district'],
+ * });
+ * postalCodes.load(allPostalCodes);
+ *
+ * const matches = await postalCodes.query({
+ *   filterByParent: true,
+ *   parentValue: provinceId,
+ *   query: 'quan 1',
+ *   limit: 200,
+ * });
+ * ```
+ */
+export function createOptionsSearchWorker<T extends XSelectOption = XSelectOption>(
+  options: OptionsSearchWorkerOptions<T> = {},
+): OptionsSearchWorker<T> {
+  const { fuzzy = true, createWorker = createDefaultWorker } = options;
+  const keys = (options.keys ?? ['label']).map(resolveSearchKey);
+
+  const pending = new Map<number, PendingQuery>();
+  let loaded: readonly T[] = [];
+  let loadedDataset: OptionsDataset | null = null;
+  let nextRequestId = 0;
+  let fallbackQuery: ((request: OptionsQuery) => OptionsQueryResult) | null = null;
+
+  let worker = typeof Worker === 'undefined' ? null : createWorker();
+
+  /**
+   * Worker failed: queries in flight reject, later ones run on the main thread.
+   */
+  const fallBackToMainThread = (error: Error) => {
+    worker?.terminate();
+    worker = null;
+    fallbackQuery = loadedDataset ? createOptionsQuery(loadedDataset) : null;
+
+    for (const entry of pending.values()) entry.reject(error);
+    pending.clear();
+  };
+
+  worker?.addEventListener('message', (event: MessageEvent<OptionsWorkerResponse>) => {
+    const { data } = event;
+    const entry = pending.get(data.requestId);
+    if (!entry) return;
+
+    pending.delete(data.requestId);
+    if ('error' in data) entry.reject(new Error(data.error));
+    else entry.resolve(data.result);
+  });
+
+  worker?.addEventListener('error', (event) => {
+    event.preventDefault();
+    const message = event instanceof ErrorEvent && event.message ? event.message : '';
+    fallBackToMainThread(new Error(`Options worker failed${message && `: ${message}`}`));
+  });
+
+  worker?.addEventListener('messageerror', () => {
+    fallBackToMainThread(new Error('Options worker sent an unreadable message'));
+  });
+
+  const post = (message: OptionsWorkerRequest) => worker!.postMessage(message);
+
+  // Indices refer to the option set loaded when the query was sent
+  const toMatches = (items: readonly T[], result: OptionsQueryResult): SearchMatch<T>[] =>
+    result.indices.map((index, i) => ({
+      option: items[index],
+      score: result.scores[i],
+      ranges: result.ranges[i],
+    }));
+
+  return {
+    load: (items) => {
+      loaded = items;
+
+      // Key getters may read rich options - resolved here, only texts are posted
+      const dataset: OptionsDataset = {
+        records: items.map((item) => {
+          const texts: Record<string, string> = {};
+          for (const key of keys) texts[key.name] = toSearchText(key.get(item));
+          return { parentValue: item.parentValue, texts };
+        }),
+        keys: keys.map(({ name, weight }) => ({ name, weight })),
+        fuzzy,
+      };
+
+      loadedDataset = dataset;
+      if (worker) post({ type: 'load', dataset });
+      else fallbackQuery = createOptionsQuery(dataset);
+    },
+
+    query: (request) => {
+      const items = loaded;
+
+      if (!worker) {
+        const result = fallbackQuery ? fallbackQuery(request) : EMPTY_RESULT;
+        return Promise.resolve(toMatches(items, result));
+      }
+
+      const requestId = ++nextRequestId;
+      return new Promise<SearchMatch<T>[]>((resolve, reject) => {
+        pending.set(requestId, {
+          resolve: (result) => resolve(toMatches(items, result)),
+          reject,
+        });
+        post({ type: 'query', requestId, request });
+      });
+    },
+
+    terminate: () => {
+      worker?.terminate();
+      for (const entry of pending.values()) {
+        entry.reject(new Error('Options worker terminated'));
+      }
+      pending.clear();
+    },
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * "Select All Matching" - parent cascade and expansion to explicit ids
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+import type { FetchRequest, FetchResponse } from '../../types';
+import {
+  createAllMatchingValue,
+  expandAllMatching,
+  narrowAllMatchingValue,
+} from '../allMatching';
+
+type Task = { id: number; title: string };
+
+const tasks = Array.from({ length: 5 }, (_, i): Task => ({
+  id: i + 1,
+  title: `Task ${i + 1}`,
+}));
+
+describe('narrowAllMatchingValue', () => {
+  it('keeps the value while its single parent is still selected', () => {
+    const value = createAllMatchingValue('bug', [1, 2]);
+    const single = createAllMatchingValue('bug', 1);
+
+    expect(narrowAllMatchingValue(value, [1, 2, 3])).toBe(value);
+    expect(narrowAllMatchingValue(single, 1)).toBe(single);
+  });
+
+  it('narrows the parent snapshot to the parents still selected', () => {
+    const value = createAllMatchingValue('bug', [1, 2], [42]);
+
+    expect(narrowAllMatchingValue(value, [2])).toEqual({ ...value, parentValue: [2] });
+  });
+
+  it('clears the value once none of its parents is selected', () => {
+    expect(narrowAllMatchingValue(createAllMatchingValue('', [1, 2]), [3])).toBeUndefined();
+    expect(narrowAllMatchingValue(createAllMatchingValue('', 1), undefined)).toBeUndefined();
+  });
+
+  it('keeps a value taken without a parent', () => {
+    const value = createAllMatchingValue('bug', undefined);
+
+    expect(narrowAllMatchingValue(value, [1])).toBe(value);
+  });
+
+  it('narrows each parent of a multi-parent value', () => {
+    const value = createAllMatchingValue('', { userIds: [1, 2], projectId: 7 });
+
+    expect(narrowAllMatchingValue(value, { userIds: [1, 2], projectId: 7 }, true)).toBe(
+      value,
+    );
+    expect(narrowAllMatchingValue(value, { userIds: [2], projectId: 7 }, true)).toEqual({
+      ...value,
+      parentValue: { userIds: [2], projectId: 7 },
+    });
+  });
+
+  it('clears a multi-parent value when one parent loses all of its values', () => {
+    const value = createAllMatchingValue('', { userIds: [1, 2], projectId: 7 });
+
+    expect(
+      narrowAllMatchingValue(value, { userIds: [1], projectId: undefined }, true),
+    ).toBeUndefined();
+  });
+});
+
+describe('expandAllMatching', () => {
+  const offsetSource = () => ({
+    fetchList: vi.fn(
+      async ({ current, pageSize }: FetchRequest): Promise<FetchResponse<Task>> => ({
+        data: tasks.slice((current - 1) * pageSize, current * pageSize),
+      }),
+    ),
+  });
+
+  it('returns explicit values unchanged', async () => {
+    const source = offsetSource();
+
+    expect(await expandAllMatching(source, [1, 2])).toEqual([1, 2]);
+    expect(await expandAllMatching(source, 3)).toEqual([3]);
+    expect(await expandAllMatching(source, undefined)).toEqual([]);
+    expect(source.fetchList).not.toHaveBeenCalled();
+  });
+
+  it('pages through offset results, skipping excluded ids', async () => {
+    const source = offsetSource();
+    const value = createAllMatchingValue('task', 7, [2, '4']);
+
+    expect(await expandAllMatching(source, value, { batchSize: 2 })).toEqual([1, 3, 5]);
+    expect(source.fetchList).toHaveBeenCalledTimes(3);
+    expect(source.fetchList).toHaveBeenCalledWith(
+      expect.objectContaining({ current: 1, pageSize: 2, parentValue: 7, search: 'task' }),
+    );
+  });
+
+  it('follows cursors until the last page', async () => {
+    const fetchList = vi.fn(
+      async ({ cursor }: FetchRequest): Promise<FetchResponse<Task>> => {
+        const start = cursor ? Number(cursor) : 0;
+        const next = start + 2;
+        return {
+          data: tasks.slice(start, next),
+          nextCursor: next < tasks.length ? String(next) : null,
+        };
+      },
+    );
+    const value = createAllMatchingValue(undefined, undefined);
+
+    expect(
+      await expandAllMatching({ fetchList, paginationMode: 'cursor' }, value, {
+        batchSize: 2,
+      }),
+    ).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchList.mock.calls.map(([request]) => request.cursor)).toEqual([
+      undefined,
+      '2',
+      '4',
+    ]);
+  });
+
+  it('stops between pages once aborted', async () => {
+    const controller = new AbortController();
+    const fetchList = vi.fn(
+      async ({ current }: FetchRequest): Promise<FetchResponse<Task>> => {
+        controller.abort();
+        return { data: tasks.slice(current - 1, current), hasMore: true };
+      },
+    );
+
+    await expect(
+      expandAllMatching({ fetchList }, createAllMatchingValue('', undefined), {
+        signal: controller.signal,
+      }),
+    ).rejects.toBe(controller.signal.reason);
+    expect(fetchList).toHaveBeenCalledTimes(1);
+  });
+});
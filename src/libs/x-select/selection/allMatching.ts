@@ -0,0 +1,209 @@
+/**
+ * XSelect - "Select All Matching"
+ *
+ * A multi-mode infinite select can select every item matching its current
+ * search + parent without loading them. The value is symbolic:
+ *
+ * ```ts
+ * { allMatching: true, search: 'bug', parentValue: [1, 2], excluded: [42] }
+ * ```
+ *
+ * The form can submit it as is (the server resolves the query), or expand it
+ * to explicit ids with `expandAllMatching` - page by page through `fetchList`.
+ */
+
+import type { AllMatchingValue, BaseItem, FetchRequest, InfiniteConfig } from '../types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Page size used to expand a symbolic value */
+export const DEFAULT_EXPAND_BATCH_SIZE = 100;
+
+// ============================================================================
+// VALUE
+// ============================================================================
+
+/**
+ * Check for a symbolic "all matching" value.
+ */
+export function isAllMatchingValue(value: unknown): value is AllMatchingValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as AllMatchingValue).allMatching === true
+  );
+}
+
+/**
+ * Create the value for "all items matching `search` under `parentValue`".
+ */
+export function createAllMatchingValue(
+  search: string | undefined,
+  parentValue: unknown,
+  excluded: Array<string | number> = [],
+): AllMatchingValue {
+  return {
+    allMatching: true,
+    search: search || undefined,
+    parentValue,
+    excluded,
+  };
+}
+
+/**
+ * Whether the value covers the list shown for `search` / `parentValue`.
+ */
+export function isAllMatchingView(
+  value: AllMatchingValue,
+  search: string | undefined,
+  parentValue: unknown,
+): boolean {
+  return (
+    (value.search || undefined) === (search || undefined) &&
+    JSON.stringify(value.parentValue ?? null) === JSON.stringify(parentValue ?? null)
+  );
+}
+
+// ============================================================================
+// CASCADE
+// ============================================================================
+
+function toKeys(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+/**
+ * Keep the part of a parent snapshot still present in `remaining`.
+ * Returns null when nothing is left.
+ */
+function narrowParent(snapshot: unknown, remaining: unknown): unknown {
+  const remainingKeys = new Set(toKeys(remaining));
+
+  if (!Array.isArray(snapshot)) {
+    return remainingKeys.has(String(snapshot)) ? snapshot : null;
+  }
+
+  const kept = snapshot.filter((v) => remainingKeys.has(String(v)));
+  if (kept.length === 0) return null;
+  return kept.length === snapshot.length ? snapshot : kept;
+}
+
+/**
+ * Apply a parent change to a symbolic value - the "clear" cascade policy.
+ *
+ * Items of removed parents leave the selection, like explicit ids do:
+ * the parent snapshot is narrowed to the parents still selected. With
+ * multiple parents (`{ userIds, taskIds }`), a parent losing all of its
+ * snapshot values clears the value, since dropping that filter would
+ * widen the selection instead.
+ *
+ * Returns the same value when unchanged, undefined when cleared.
+ */
+export function narrowAllMatchingValue(
+  value: AllMatchingValue,
+  parentValue: unknown,
+  isMultiParent = false,
+): AllMatchingValue | undefined {
+  const snapshot = value.parentValue;
+  if (snapshot === null || snapshot === undefined) return value;
+
+  if (!isMultiParent) {
+    const narrowed = narrowParent(snapshot, parentValue);
+    if (narrowed === null) return undefined;
+    return narrowed === snapshot ? value : { ...value, parentValue: narrowed };
+  }
+
+  const snapshots = snapshot as Record<string, unknown>;
+  const parents = (parentValue ?? {}) as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  let isChanged = false;
+
+  for (const [name, parentSnapshot] of Object.entries(snapshots)) {
+    if (toKeys(parentSnapshot).length === 0) {
+      result[name] = parentSnapshot;
+      continue;
+    }
+    const narrowed = narrowParent(parentSnapshot, parents[name]);
+    if (narrowed === null) return undefined;
+    result[name] = narrowed;
+    if (narrowed !== parentSnapshot) isChanged = true;
+  }
+
+  return isChanged ? { ...value, parentValue: result } : value;
+}
+
+// ============================================================================
+// EXPAND
+// ============================================================================
+
+export interface ExpandAllMatchingOptions {
+  /** Items per request (default: 100) */
+  batchSize?: number;
+
+  /** Abort between / during page requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Resolve a symbolic value to explicit ids, fetching matching pages in batches.
+ * Explicit values are returned unchanged.
+ *
+ * @example Submit explicit ids
+ * ```ts
+ * const taskIds = await expandAllMatching(taskSource, values.taskIds);
+ * ```
+ */
+export async function expandAllMatching<T extends BaseItem>(
+  source: Pick<InfiniteConfig<T>, 'fetchList' | 'paginationMode' | 'getItemId'>,
+  value: unknown,
+  { batchSize = DEFAULT_EXPAND_BATCH_SIZE, signal }: ExpandAllMatchingOptions = {},
+): Promise<Array<string | number>> {
+  if (!isAllMatchingValue(value)) {
+    if (value === null || value === undefined) return [];
+    return (Array.isArray(value) ? value : [value]) as Array<string | number>;
+  }
+
+  const {
+    fetchList,
+    paginationMode = 'offset',
+    getItemId = (item: T) => item.id,
+  } = source;
+  const excluded = new Set(value.excluded.map(String));
+  const ids: Array<string | number> = [];
+
+  let current = 1;
+  let cursor: string | undefined;
+
+  for (;;) {
+    signal?.throwIfAborted();
+
+    const request: FetchRequest = {
+      current,
+      pageSize: batchSize,
+      parentValue: value.parentValue,
+      search: value.search,
+      signal,
+    };
+    if (cursor) request.cursor = cursor;
+
+    const response = await fetchList(request);
+    for (const item of response.data) {
+      const id = getItemId(item);
+      if (!excluded.has(String(id))) ids.push(id);
+    }
+
+    if (response.data.length === 0) break;
+    if (paginationMode === 'cursor') {
+      if (!response.nextCursor || response.hasMore === false) break;
+      cursor = response.nextCursor;
+    } else if (!(response.hasMore ?? response.data.length >= batchSize)) {
+      break;
+    }
+    current++;
+  }
+
+  return ids;
+}
@@ -0,0 +1,13 @@
+/**
+ * XSelect - Selection Exports
+ */
+
+export {
+  isAllMatchingValue,
+  createAllMatchingValue,
+  isAllMatchingView,
+  narrowAllMatchingValue,
+  expandAllMatching,
+  DEFAULT_EXPAND_BATCH_SIZE,
+} from './allMatching';
+export type { ExpandAllMatchingOptions } from './allMatching';
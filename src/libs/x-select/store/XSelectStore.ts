@@ -5,36 +5,73 @@
  * Designed for use with React's useSyncExternalStore.
  *
  * Architecture:
- * - Store manages: values, options cache, loading states, cascade logic
+ * - Store manages: values, options cache, loading states, cascade logic,
+ *   validation state (errors / touched / dirty), undo/redo history
  * - Form library is SOURCE OF TRUTH for values (via adapter)
- * - Adapter syncs store changes back to form
+ * - Adapter syncs store changes back to form; adapters with `getValue` /
+ *   `subscribe` also sync external form changes into the store (cascading)
  *
  * Optimizations:
  * - Computed state with lazy evaluation and structural sharing
  * - Batched notifications via microtask
  * - Request deduplication for async options
+ * - Async options cached per parent value (TTL + LRU bounded)
+ * - Superseded async option loads are aborted (latest parent value wins)
  * - Cached filtered options per parent value
+ *
+ * Events:
+ * - Typed events (`value:change`, `cascade:delete`, `loading:start`, ...)
+ *   are emitted synchronously after state is committed
+ * - `on` listens store-wide, `onField` listens to a single field
+ *
+ * Field arrays:
+ * - Configs named `items[].project` are row templates; each row registers
+ *   concrete fields (`items[0].project`) whose dependsOn points at the
+ *   same row, so every row cascades independently
  */
 
+import type { QueryClient } from '@tanstack/react-query';
+
 import type {
+  CascadePolicy,
+  CascadePolicyKind,
+  DefaultValueResolver,
   FieldConfig,
   FieldSnapshot,
   FieldValues,
   FormAdapter,
+  HistoryState,
+  RowChange,
+  OptionsCacheConfig,
   RelationshipMap,
   XSelectOption,
   StoreListener,
+  StoreEventType,
+  StoreEventPayloadMap,
+  StoreEventListener,
+  XSelectStoreOptions,
 } from '../types';
 
 import {
   areValuesEqual,
-  buildRelationshipMap,
   cascadeDelete,
   cascadeDeleteMultiParent,
   createDescendantsGetter,
   filterOptionsByParent,
+  getFieldArrayName,
+  isEmpty,
+  mapFieldRelationships,
   normalizeDependsOn,
+  normalizeToArray,
+  normalizeValidationResult,
+  parseRowFieldName,
+  sortFieldsByDependency,
+  toRowFieldName,
+  validateFieldConfigs,
+  validateFieldRules,
+  XSelectConfigError,
 } from '../utils';
+import { isAllMatchingValue, narrowAllMatchingValue } from '../selection';
 
 // ============================================================================
 // INTERNAL TYPES
@@ -43,6 +80,14 @@ import {
 interface FieldChange {
   name: string;
   value: unknown;
+  /** Cascade policy that produced the change (cascaded fields only) */
+  policy?: CascadePolicyKind;
+}
+
+interface PendingCascade {
+  /** Options key of the parent value the check waits for */
+  key: string;
+  policy: 'keep-if-valid' | 'auto-select-single';
 }
 
 interface CachedComputed<T> {
@@ -51,6 +96,35 @@ interface CachedComputed<T> {
   dependencies: unknown[];
 }
 
+type AnyEventListener = (payload: StoreEventPayloadMap[StoreEventType]) => void;
+
+interface AsyncOptionsEntry {
+  options: XSelectOption[];
+  loadedAt: number;
+  /** Marked by invalidateOptions - refetched on next use */
+  invalidated: boolean;
+}
+
+interface OptionsLoad {
+  key: string;
+  controller: AbortController;
+  promise: Promise<void>;
+}
+
+interface OptionsFetch {
+  controller: AbortController;
+  promise: Promise<XSelectOption[]>;
+  /** Callers still waiting - aborted together when none is left */
+  callers: number;
+}
+
+interface FieldArray {
+  /** Row templates in dependency order */
+  templates: FieldConfig[];
+  /** Stable key per row, in row order */
+  rowKeys: readonly number[];
+}
+
 interface OptionsCacheEntry {
   options: XSelectOption[];
   parentValue: unknown;
@@ -63,12 +137,118 @@ interface OptionsCacheEntry {
 
 const EMPTY_ARRAY: readonly XSelectOption[] = Object.freeze([]);
 
+const EMPTY_ERRORS: readonly string[] = Object.freeze([]);
+
+const EMPTY_ROW_KEYS: readonly number[] = Object.freeze([]);
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+const DEFAULT_OPTIONS_CACHE_TTL = 0;
+
+const DEFAULT_OPTIONS_CACHE_SIZE = 20;
+
 const EMPTY_SNAPSHOT: FieldSnapshot = Object.freeze({
   value: undefined,
   parentValue: undefined,
   isLoading: false,
+  optionsError: null,
+  isHidden: false,
+  isDisabledByRule: false,
+  errors: EMPTY_ERRORS,
+  isValidating: false,
+  touched: false,
+  dirty: false,
 });
 
+/**
+ * Cache key of a parent value passed to async `options`.
+ */
+function toOptionsKey(parentValue: unknown): string {
+  return JSON.stringify(parentValue) ?? '';
+}
+
+/**
+ * Concrete config of a row template (`items[].x` → `items[2].x`).
+ */
+function toRowConfig(template: FieldConfig, index: number): FieldConfig {
+  const { dependsOn } = template;
+  return {
+    ...template,
+    name: toRowFieldName(template.name, index),
+    dependsOn: Array.isArray(dependsOn)
+      ? dependsOn.map((name) => toRowFieldName(name, index))
+      : dependsOn && toRowFieldName(dependsOn, index),
+  };
+}
+
+function isReadOnlyComputed(config: FieldConfig): boolean {
+  return !!config.compute && config.computeMode !== 'overridable';
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts.
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === 'function'
+  );
+}
+
+/**
+ * Throw XSelectConfigError on invalid configs. With `allowPendingParents`,
+ * missing parents pass: they may be registered later (`registerField`).
+ */
+function assertValidConfigs(
+  configs: ReadonlyArray<FieldConfig>,
+  allowPendingParents: boolean,
+): void {
+  const issues = validateFieldConfigs(configs).filter(
+    (issue) => !allowPendingParents || issue.code !== 'MISSING_PARENT',
+  );
+  if (issues.length > 0) {
+    throw new XSelectConfigError(issues);
+  }
+}
+
+/**
+ * Apply an options-based cascade policy to a value.
+ */
+function applyOptionsPolicy(
+  policy: 'keep-if-valid' | 'auto-select-single',
+  config: FieldConfig,
+  value: unknown,
+  options: XSelectOption[],
+): unknown {
+  if (policy === 'auto-select-single' && options.length === 1) {
+    const single = options[0].value;
+    return config.mode ? [single] : single;
+  }
+
+  const available = new Set<unknown>(options.map((o) => o.value));
+  if (Array.isArray(value)) {
+    return value.filter((v) => available.has(v));
+  }
+  return available.has(value) ? value : undefined;
+}
+
 // ============================================================================
 // STORE CLASS
 // ============================================================================
@@ -88,6 +268,10 @@ const EMPTY_SNAPSHOT: FieldSnapshot = Object.freeze({
  *   console.log('Country changed:', store.getFieldSnapshot('country'));
  * });
  *
+ * store.on('cascade:delete', ({ fieldName, affectedFields }) => {
+ *   console.log(`${fieldName} cleared ${affectedFields.length} fields`);
+ * });
+ *
  * store.setValue('country', 'US');
  * ```
  */
@@ -95,20 +279,46 @@ export class XSelectStore {
   // State
   private fieldValues: FieldValues;
   private loadingFieldNames: ReadonlySet<string> = new Set();
-  private asyncOptionsCache = new Map<string, XSelectOption[]>();
+  // fieldName → (parent key → entry), Map order = LRU order
+  private asyncOptionsCache = new Map<string, Map<string, AsyncOptionsEntry>>();
+  // fieldName → parent key of the options currently shown
+  private activeOptionsKeys = new Map<string, string>();
+  private optionsErrors = new Map<string, Error>();
   private externalOptionsMap = new Map<string, XSelectOption[]>();
   private storeVersion = 0;
 
-  // Config (immutable)
-  private readonly fieldConfigs: ReadonlyArray<FieldConfig>;
-  private readonly configLookup: ReadonlyMap<string, FieldConfig>;
-  private readonly fieldRelationships: RelationshipMap;
-  private readonly getDescendantsOf: (fieldName: string) => string[];
-  private readonly fieldNameSet: ReadonlySet<string>;
+  // Validation state
+  private initialFieldValues: FieldValues;
+  private fieldErrors = new Map<string, readonly string[]>();
+  private validatingFieldNames: ReadonlySet<string> = new Set();
+  private touchedFieldNames: ReadonlySet<string> = new Set();
+  private validationRuns = new Map<string, number>();
+
+  // History (undo/redo) - full value snapshots, one per user action
+  private readonly historyLimit: number;
+  private pastValues: FieldValues[] = [];
+  private futureValues: FieldValues[] = [];
+  private historyState: HistoryState = { canUndo: false, canRedo: false };
+  private historySubscribers = new Set<StoreListener>();
+
+  // Config - replaced (never mutated) by registerField / unregisterField
+  private fieldConfigs: ReadonlyArray<FieldConfig>;
+  private configLookup: ReadonlyMap<string, FieldConfig>;
+  private fieldRelationships: RelationshipMap;
+  private getDescendantsOf: (fieldName: string) => string[];
+  private fieldNameSet: ReadonlySet<string>;
+  private fieldOrder: ReadonlyArray<string>;
+  // arrayName → row templates + row keys
+  private fieldArrays = new Map<string, FieldArray>();
+  private nextRowKey = 0;
 
   // Subscriptions
   private fieldSubscribers = new Map<string, Set<StoreListener>>();
 
+  // Events
+  private eventListeners = new Map<StoreEventType, Set<AnyEventListener>>();
+  private fieldEventListeners = new Map<string, Map<StoreEventType, Set<AnyEventListener>>>();
+
   // Caching
   private snapshotCache = new Map<string, CachedComputed<FieldSnapshot>>();
   private filteredOptionsCache = new Map<string, OptionsCacheEntry>();
@@ -117,11 +327,31 @@ export class XSelectStore {
   private pendingNotifications = new Set<string>();
   private isNotificationScheduled = false;
 
-  // Request deduplication
-  private pendingRequests = new Map<string, Promise<XSelectOption[]>>();
+  // In-flight async option load per field (deduplication + cancellation)
+  private optionsLoads = new Map<string, OptionsLoad>();
+  // In-flight fetchOptions per field + parent value key (deduplication)
+  private optionsFetches = new Map<string, OptionsFetch>();
+  // Cascade policies waiting for async options of the new parent value
+  private pendingCascades = new Map<string, PendingCascade>();
+  // Latest async default run per field (older results are ignored)
+  private defaultRuns = new Map<string, number>();
+  // Overridable computed fields changed by the user since their last compute
+  private overriddenFieldNames = new Set<string>();
+
+  // visibleWhen / disabledWhen results
+  private hasFieldRules: boolean;
+  private hiddenFieldNames: ReadonlySet<string> = new Set();
+  private ruleDisabledFieldNames: ReadonlySet<string> = new Set();
+  private readonly optionsCacheDefaults: Omit<OptionsCacheConfig, 'queryKey'>;
+  private readonly queryClient?: QueryClient;
 
   // Adapter & lifecycle
   private formAdapter?: FormAdapter;
+  private disconnectAdapter?: () => void;
+  /** Store → form write in progress - form notifications are our own */
+  private isWritingToForm = false;
+  private pendingMetaFields = new Set<string>();
+  private isMetaSyncScheduled = false;
   private isDestroyed = false;
 
   // ============================================================================
@@ -132,20 +362,48 @@ export class XSelectStore {
     configs: FieldConfig[],
     initialValues: FieldValues = {},
     adapter?: FormAdapter,
+    options: XSelectStoreOptions = {},
   ) {
-    this.fieldConfigs = Object.freeze([...configs]);
+    // Validates the dependency graph - throws XSelectConfigError on
+    // duplicates, self-references, missing parents or cycles. A pending
+    // parent (opt-in) behaves as empty until it is registered (`registerField`)
+    assertValidConfigs(configs, !!options.allowPendingParents);
+
+    // Row templates → one concrete field per row found in initialValues
+    const fieldConfigs = this.expandFieldArrays(configs, initialValues);
+    this.fieldRelationships = new Map(mapFieldRelationships(fieldConfigs));
+
+    this.fieldConfigs = Object.freeze([...fieldConfigs]);
     this.fieldValues = { ...initialValues };
+    this.initialFieldValues = this.fieldValues;
     this.formAdapter = adapter;
+    this.historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    this.optionsCacheDefaults = options.optionsCache ?? {};
+    this.queryClient = options.queryClient;
 
     // Build lookup structures
-    this.configLookup = new Map(configs.map((c) => [c.name, c]));
-    this.fieldNameSet = new Set(configs.map((c) => c.name));
-    this.fieldRelationships = buildRelationshipMap(configs);
-    console.log({fieldRelationships: this.fieldRelationships})
+    this.configLookup = new Map(fieldConfigs.map((c) => [c.name, c]));
+    this.fieldNameSet = new Set(fieldConfigs.map((c) => c.name));
     this.getDescendantsOf = createDescendantsGetter(this.fieldRelationships);
+    this.fieldOrder = sortFieldsByDependency(fieldConfigs);
+
+    // Fill empty fields with their defaults / computed values (parents first)
+    this.fieldValues = this.resolveInitialValues(this.fieldValues);
+
+    // Evaluate visibility rules (hidden values cleared when configured)
+    this.hasFieldRules = fieldConfigs.some((c) => c.visibleWhen || c.disabledWhen);
+    if (this.hasFieldRules) {
+      const values = { ...this.fieldValues };
+      this.applyFieldRules(values, []);
+      this.fieldValues = values;
+    }
+    this.initialFieldValues = this.fieldValues;
 
     // Initialize async options
     this.initializeAsyncOptions();
+
+    // Two-way adapter sync
+    this.connectAdapter();
   }
 
   // ============================================================================
@@ -163,6 +421,16 @@ export class XSelectStore {
     const config = this.configLookup.get(fieldName)!;
     const currentValue = this.fieldValues[fieldName];
     const isLoading = this.loadingFieldNames.has(fieldName);
+    const optionsError = this.optionsErrors.get(fieldName) ?? null;
+    const isHidden = this.hiddenFieldNames.has(fieldName);
+    const isDisabledByRule = this.ruleDisabledFieldNames.has(fieldName);
+    const errors = this.fieldErrors.get(fieldName) ?? EMPTY_ERRORS;
+    const isValidating = this.validatingFieldNames.has(fieldName);
+    const touched = this.touchedFieldNames.has(fieldName);
+    const initialValue = this.initialFieldValues[fieldName];
+    const dirty =
+      !(isEmpty(currentValue) && isEmpty(initialValue)) &&
+      !areValuesEqual(currentValue, initialValue);
 
     // Calculate parentValue
     let parentValue: unknown;
@@ -183,27 +451,27 @@ export class XSelectStore {
       }
     }
 
+    // [value, parentValue, ...state] - parentValue compared structurally
+    const dependencies = [
+      currentValue,
+      parentValue,
+      isLoading,
+      optionsError,
+      isHidden,
+      isDisabledByRule,
+      errors,
+      isValidating,
+      touched,
+      dirty,
+    ];
+
     // Check cache
     const cached = this.snapshotCache.get(fieldName);
-    if (cached) {
-      const [cachedValue, cachedParent, cachedLoading] = cached.dependencies as [
-        unknown,
-        unknown,
-        boolean,
-      ];
-
-      const parentValueEqual = this.areParentValuesEqual(cachedParent, parentValue);
-
-      if (
-        cachedValue === currentValue &&
-        parentValueEqual &&
-        cachedLoading === isLoading
-      ) {
-        if (cached.version !== this.storeVersion) {
-          cached.version = this.storeVersion;
-        }
-        return cached.value;
+    if (cached && this.areSnapshotDependenciesEqual(cached.dependencies, dependencies)) {
+      if (cached.version !== this.storeVersion) {
+        cached.version = this.storeVersion;
       }
+      return cached.value;
     }
 
     // Create new snapshot
@@ -212,17 +480,36 @@ export class XSelectStore {
       parentValue,
       parentValues,
       isLoading,
+      optionsError,
+      isHidden,
+      isDisabledByRule,
+      errors,
+      isValidating,
+      touched,
+      dirty,
     };
 
     this.snapshotCache.set(fieldName, {
       value: snapshot,
       version: this.storeVersion,
-      dependencies: [currentValue, parentValue, isLoading],
+      dependencies,
     });
 
     return snapshot;
   };
 
+  private areSnapshotDependenciesEqual(a: unknown[], b: unknown[]): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (i === 1) {
+        if (!this.areParentValuesEqual(a[i], b[i])) return false;
+      } else if (a[i] !== b[i]) {
+        return false;
+      }
+    }
+    return true;
+  }
+
   /**
    * Compare parent values.
    */
@@ -284,6 +571,15 @@ export class XSelectStore {
       return rawOptions;
     }
 
+    // Async options are already loaded for the current parent value
+    const isAsync =
+      typeof config.options === 'function' &&
+      !externalOptions &&
+      !this.externalOptionsMap.has(fieldName);
+    if (isAsync && !config.filterOptions) {
+      return rawOptions;
+    }
+
     // Calculate parentValue
     let parentValue: unknown;
     const parentNames = normalizeDependsOn(config.dependsOn);
@@ -332,25 +628,38 @@ export class XSelectStore {
    */
   setValue = (fieldName: string, newValue: unknown): void => {
     if (this.isDestroyed) return;
+    if (!this.canUserSet(fieldName)) return;
 
     const currentValue = this.fieldValues[fieldName];
     if (areValuesEqual(currentValue, newValue)) return;
 
     this.storeVersion++;
 
+    const previousValues = this.fieldValues;
     const changes: FieldChange[] = [{ name: fieldName, value: newValue }];
     const newValues = { ...this.fieldValues, [fieldName]: newValue };
 
+    // Explicit value wins over a cascade policy still waiting for options
+    this.pendingCascades.delete(fieldName);
+    this.markOverridden([fieldName]);
+
     this.cascadeDeleteDescendants(fieldName, newValues, changes);
 
+    this.recordHistory(previousValues);
     this.fieldValues = newValues;
+    this.markTouched([fieldName]);
+    this.runValidation(changes.map((c) => c.name));
 
     this.scheduleNotifications(changes.map((c) => c.name));
     this.syncToForm(changes);
+    this.handleValuesCommitted(changes.map((c) => c.name));
+    this.emitValueChange(fieldName, changes.slice(1), previousValues);
   };
 
   /**
    * Batch set multiple values.
+   * Values set in the same batch are never cleared by a parent's cascade
+   * (e.g. a whole country → province → city path).
    */
   setValues = (values: Partial<FieldValues>): void => {
     if (this.isDestroyed) return;
@@ -358,9 +667,12 @@ export class XSelectStore {
     const changes: FieldChange[] = [];
     const newValues = { ...this.fieldValues };
     const fieldsToProcess = new Set<string>();
+    const explicitFields = new Set<string>();
 
     for (const [fieldName, newValue] of Object.entries(values)) {
       if (!this.fieldNameSet.has(fieldName)) continue;
+      if (!this.canUserSet(fieldName)) continue;
+      explicitFields.add(fieldName);
 
       const currentValue = this.fieldValues[fieldName];
       if (!areValuesEqual(currentValue, newValue)) {
@@ -374,14 +686,122 @@ export class XSelectStore {
 
     this.storeVersion++;
 
+    const previousValues = this.fieldValues;
+    const cascadesBySource = new Map<string, FieldChange[]>();
+
     for (const fieldName of fieldsToProcess) {
-      this.cascadeDeleteDescendants(fieldName, newValues, changes);
+      this.pendingCascades.delete(fieldName);
+    }
+    this.markOverridden(fieldsToProcess);
+
+    for (const fieldName of fieldsToProcess) {
+      const start = changes.length;
+      this.cascadeDeleteDescendants(fieldName, newValues, changes, explicitFields);
+      cascadesBySource.set(fieldName, changes.slice(start));
     }
 
+    this.recordHistory(previousValues);
     this.fieldValues = newValues;
+    this.markTouched(fieldsToProcess);
+    this.runValidation(changes.map((c) => c.name));
 
     this.scheduleNotifications(changes.map((c) => c.name));
     this.syncToForm(changes);
+    this.handleValuesCommitted(changes.map((c) => c.name));
+
+    for (const [fieldName, cascaded] of cascadesBySource) {
+      this.emitValueChange(fieldName, cascaded, previousValues);
+    }
+  };
+
+  /**
+   * Restore values from an external source (URL, storage, saved filter).
+   *
+   * Fields are applied in dependency order - parents before children - so
+   * a parent's cascade never clears a restored child value. Descendants that
+   * are NOT restored still cascade normally.
+   * Not recorded in history and does not mark fields as touched.
+   * The form adapter receives all changes in a single batch.
+   */
+  restoreValues = (values: Partial<FieldValues>): void => {
+    if (this.isDestroyed) return;
+
+    const newValues = { ...this.fieldValues };
+    const scratch: FieldChange[] = [];
+
+    for (const fieldName of this.fieldOrder) {
+      if (!(fieldName in values)) continue;
+      if (areValuesEqual(newValues[fieldName], values[fieldName])) continue;
+
+      newValues[fieldName] = values[fieldName];
+      this.cascadeDeleteDescendants(fieldName, newValues, scratch);
+    }
+
+    this.commitValues(newValues);
+  };
+
+  /**
+   * Reset fields to their initial values (or defaults when the parent
+   * value no longer matches the initial one). All fields when omitted.
+   *
+   * Fields are reset parents first; children of reset fields that are not
+   * reset themselves cascade normally. Touched state is cleared, the form
+   * adapter receives one batch, and the step can be undone.
+   */
+  reset = (fieldNames?: string[]): void => {
+    if (this.isDestroyed) return;
+
+    const targets = new Set(fieldNames ?? this.fieldOrder);
+    const order = this.fieldOrder.filter((name) => targets.has(name));
+
+    const newValues = { ...this.fieldValues };
+    const scratch: FieldChange[] = [];
+
+    // Parents first, cascading right away - a parent's cascade never
+    // clears a field reset after it
+    for (const fieldName of order) {
+      this.pendingCascades.delete(fieldName);
+
+      const config = this.configLookup.get(fieldName)!;
+      let value = this.parentsMatchInitial(fieldName, newValues)
+        ? this.initialFieldValues[fieldName]
+        : undefined;
+
+      if (config.compute) {
+        this.overriddenFieldNames.delete(fieldName);
+        if (isEmpty(value) || isReadOnlyComputed(config)) {
+          value = this.computeFieldValue(config, newValues);
+        }
+      }
+
+      // Parent moved away from its initial value → default for the new parent
+      if (isEmpty(value) && config.defaultValue !== undefined) {
+        value = this.resolveDefaultValue(config, newValues) ?? value;
+      }
+
+      if (areValuesEqual(newValues[fieldName], value)) continue;
+
+      newValues[fieldName] = value;
+      this.cascadeDeleteDescendants(fieldName, newValues, scratch);
+    }
+
+    this.finishReset('reset', order, newValues);
+  };
+
+  /**
+   * Clear every field (no defaults). One form batch, undoable.
+   */
+  clear = (): void => {
+    if (this.isDestroyed) return;
+
+    const newValues = { ...this.fieldValues };
+    for (const fieldName of this.fieldOrder) {
+      this.pendingCascades.delete(fieldName);
+      this.defaultRuns.delete(fieldName);
+      newValues[fieldName] = Array.isArray(newValues[fieldName]) ? [] : undefined;
+    }
+
+    this.finishReset('clear', this.fieldOrder, newValues);
   };
 
   /**
@@ -395,151 +815,762 @@ export class XSelectStore {
     this.externalOptionsMap.set(fieldName, options);
     this.storeVersion++;
     this.filteredOptionsCache.delete(fieldName);
+
+    this.emit('options:change', { fieldName, options }, [fieldName]);
   };
 
   /**
-   * Set form adapter.
+   * Reload async options for the field's current parent value.
+   * Use after a failed load (`optionsError`).
    */
-  setAdapter = (adapter?: FormAdapter): void => {
-    this.formAdapter = adapter;
+  retryOptions = (fieldName: string): Promise<void> => {
+    return this.reloadActiveOptions(fieldName);
   };
 
   /**
-   * Sync controlled values.
+   * Invalidate cached async options (e.g. after a mutation).
+   * - parentValue omitted: every cached parent value of the field
+   * - Options currently shown are refetched, others on next use
+   * - Also invalidates `cache.queryKey` in the React Query client
    */
-  syncControlledValue = (controlledValue: FieldValues): void => {
-    if (this.isDestroyed) return;
-
-    const changedFields: string[] = [];
-    const prevValues = this.fieldValues;
+  invalidateOptions = (fieldName: string, parentValue?: unknown): Promise<void> => {
+    const config = this.configLookup.get(fieldName);
+    if (!config) return Promise.resolve();
 
-    for (const fieldName of this.fieldNameSet) {
-      if (prevValues[fieldName] !== controlledValue[fieldName]) {
-        changedFields.push(fieldName);
-      }
+    const queryKey = config.cache?.queryKey;
+    if (this.queryClient && queryKey) {
+      this.queryClient.invalidateQueries({
+        queryKey: parentValue === undefined ? [queryKey] : [queryKey, 'list', parentValue],
+      });
     }
 
-    if (changedFields.length === 0) return;
+    // Nothing cached yet - only a first load still in flight can be stale
+    const entries = this.asyncOptionsCache.get(fieldName);
+    if (!entries && !this.optionsLoads.has(fieldName)) return Promise.resolve();
 
-    this.storeVersion++;
-    this.fieldValues = controlledValue;
-    this.scheduleNotifications(changedFields);
-  };
+    const activeKey = this.activeOptionsKeys.get(fieldName);
+    const targetKey = parentValue === undefined ? undefined : toOptionsKey(parentValue);
 
-  // ============================================================================
-  // SUBSCRIPTIONS
-  // ============================================================================
+    for (const [key, entry] of entries ?? []) {
+      if (targetKey !== undefined && key !== targetKey) continue;
 
-  /**
-   * Subscribe to field changes.
-   */
-  subscribe = (fieldName: string, listener: StoreListener): (() => void) => {
-    let subscribers = this.fieldSubscribers.get(fieldName);
-    if (!subscribers) {
-      subscribers = new Set();
-      this.fieldSubscribers.set(fieldName, subscribers);
+      // Keep showing active options until the refetch lands
+      if (key === activeKey) entry.invalidated = true;
+      else entries?.delete(key);
     }
-    subscribers.add(listener);
 
-    return () => {
-      const subs = this.fieldSubscribers.get(fieldName);
-      if (subs) {
-        subs.delete(listener);
-        if (subs.size === 0) {
-          this.fieldSubscribers.delete(fieldName);
-        }
-      }
-    };
-  };
+    if (activeKey === undefined || (targetKey !== undefined && targetKey !== activeKey)) {
+      return Promise.resolve();
+    }
 
-  // ============================================================================
-  // CLEANUP
-  // ============================================================================
+    return this.reloadActiveOptions(fieldName);
+  };
 
   /**
-   * Destroy store.
+   * Refetch async options for the current parent values, ignoring TTL.
+   * Refreshes every async field when fieldName is omitted.
    */
-  destroy = (): void => {
-    this.isDestroyed = true;
-    this.fieldSubscribers.clear();
-    this.snapshotCache.clear();
-    this.filteredOptionsCache.clear();
-    this.pendingRequests.clear();
-    this.asyncOptionsCache.clear();
-    this.externalOptionsMap.clear();
+  refreshOptions = (fieldName?: string): Promise<void> => {
+    const fieldNames = fieldName
+      ? [fieldName]
+      : this.fieldConfigs.filter((c) => typeof c.options === 'function').map((c) => c.name);
+
+    return Promise.all(fieldNames.map((name) => this.reloadActiveOptions(name))).then(
+      () => undefined,
+    );
   };
 
-  // ============================================================================
-  // PRIVATE - Options Resolution
-  // ============================================================================
+  /**
+   * Get async options load error of a field.
+   */
+  getOptionsError = (fieldName: string): Error | null => {
+    return this.optionsErrors.get(fieldName) ?? null;
+  };
 
-  private resolveOptions(
+  /**
+   * Options of a field for any parent value - not just the selected one
+   * (e.g. Cascader / TreeSelect levels). Synchronous: async options return
+   * the cached entry of that parent value, or undefined when not loaded.
+   */
+  getOptionsForParent = (
     fieldName: string,
-    externalOptions?: XSelectOption[],
-  ): XSelectOption[] {
-    if (externalOptions) return externalOptions;
-
-    const stored = this.externalOptionsMap.get(fieldName);
-    if (stored) return stored;
-
+    parentValue: unknown,
+  ): XSelectOption[] | undefined => {
     const config = this.configLookup.get(fieldName);
-    if (!config) return EMPTY_ARRAY as XSelectOption[];
+    if (!config) return undefined;
 
     if (typeof config.options === 'function') {
-      return this.asyncOptionsCache.get(fieldName) ?? (EMPTY_ARRAY as XSelectOption[]);
+      return this.asyncOptionsCache.get(fieldName)?.get(toOptionsKey(parentValue))?.options;
     }
 
-    return config.options ?? (EMPTY_ARRAY as XSelectOption[]);
-  }
+    const options = config.options ?? this.externalOptionsMap.get(fieldName) ?? [];
+    if (!config.dependsOn) return options;
+    return (config.filterOptions ?? filterOptionsByParent)(options, parentValue);
+  };
 
-  private areOptionsShallowEqual(a: XSelectOption[], b: XSelectOption[]): boolean {
-    if (a.length !== b.length) return false;
-    for (let i = 0; i < a.length; i++) {
-      if (a[i].value !== b[i].value) return false;
+  /**
+   * Load options of a field for any parent value (see `getOptionsForParent`).
+   * Async options go through the field's cache without changing which
+   * options the field currently shows. Callers of the same parent value
+   * share one request, aborted once every caller's `signal` has aborted.
+   */
+  fetchOptions = async (
+    fieldName: string,
+    parentValue: unknown,
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<XSelectOption[]> => {
+    signal?.throwIfAborted();
 
-      const aPV = a[i].parentValue;
-      const bPV = b[i].parentValue;
+    const config = this.configLookup.get(fieldName);
+    if (!config || this.isDestroyed) return [];
 
-      if (aPV !== bPV) {
-        if (Array.isArray(aPV) && Array.isArray(bPV)) {
-          if (aPV.length !== bPV.length) return false;
-          for (let j = 0; j < aPV.length; j++) {
-            if (aPV[j] !== bPV[j]) return false;
+    if (typeof config.options !== 'function') {
+      return this.getOptionsForParent(fieldName, parentValue) ?? [];
+    }
+
+    // Join the field's own in-flight load of the same parent value
+    const key = toOptionsKey(parentValue);
+    const current = this.optionsLoads.get(fieldName);
+    const joined = current?.key === key;
+    if (joined) await raceAbort(current.promise, signal);
+
+    const cached = this.asyncOptionsCache.get(fieldName)?.get(key);
+    const { ttl } = this.getOptionsCacheConfig(config);
+    const isFresh = !!cached && !cached.invalidated && Date.now() - cached.loadedAt < ttl;
+    if (cached && (joined || isFresh)) return cached.options;
+
+    const fetchKey = `${fieldName}\u0000${key}`;
+    let shared = this.optionsFetches.get(fetchKey);
+
+    if (!shared) {
+      const controller = new AbortController();
+      const promise = Promise.resolve(
+        config.options(parentValue, { signal: controller.signal }),
+      )
+        .then((options) => {
+          if (!this.isDestroyed && !controller.signal.aborted) {
+            this.writeCachedOptions(config, key, options);
           }
-        } else {
-          return false;
-        }
+          return options;
+        })
+        .finally(() => {
+          if (this.optionsFetches.get(fetchKey)?.controller === controller) {
+            this.optionsFetches.delete(fetchKey);
+          }
+        });
+      // Callers attach their handlers later - avoid unhandled rejections meanwhile
+      promise.catch(() => undefined);
+
+      shared = { controller, promise, callers: 0 };
+      this.optionsFetches.set(fetchKey, shared);
+    }
+
+    shared.callers++;
+    try {
+      return await raceAbort(shared.promise, signal);
+    } finally {
+      shared.callers--;
+      // Abort a request nobody waits for anymore
+      if (shared.callers === 0 && signal?.aborted) {
+        shared.controller.abort();
+        if (this.optionsFetches.get(fetchKey) === shared) this.optionsFetches.delete(fetchKey);
       }
     }
-    return true;
-  }
+  };
 
-  // ============================================================================
-  // PRIVATE - Cascade Delete
-  // ============================================================================
+  /**
+   * Register a field at runtime (e.g. an expanded form section).
+   * Re-registering a name replaces its config. Parents may be registered
+   * later; until then the field behaves as if its parent were empty.
+   * Throws XSelectConfigError on self-references or cycles.
+   */
+  registerField = (config: FieldConfig): void => {
+    if (this.isDestroyed) return;
 
-  private cascadeDeleteDescendants(
-    fieldName: string,
-    values: FieldValues,
-    changes: FieldChange[],
-  ): void {
-    const descendants = this.getDescendantsOf(fieldName);
+    const existing = this.configLookup.get(config.name);
+    if (existing === config) return;
 
-    for (const descendant of descendants) {
-      const relationship = this.fieldRelationships.get(descendant);
-      const parentNames = relationship?.parent;
-      if (!parentNames) continue;
+    const configs = [...this.fieldConfigs.filter((c) => c.name !== config.name), config];
+    assertValidConfigs(configs, true);
 
-      const currentValue = values[descendant];
-      if (currentValue === undefined || currentValue === null) continue;
+    if (existing) this.detachRelationship(existing);
+    this.applyConfigs(configs);
+    this.attachRelationship(config);
 
-      const hasValue = Array.isArray(currentValue)
-        ? currentValue.length > 0
-        : true;
-      if (!hasValue) continue;
+    // Same initialization as constructor-time fields
+    let value = this.fieldValues[config.name];
+    if (config.compute && (isReadOnlyComputed(config) || isEmpty(value))) {
+      value = this.computeFieldValue(config, this.fieldValues);
+    } else if (isEmpty(value) && config.defaultValue !== undefined) {
+      value = this.resolveDefaultValue(config, this.fieldValues, true) ?? value;
+    }
+    if (!(config.name in this.initialFieldValues)) {
+      this.initialFieldValues = { ...this.initialFieldValues, [config.name]: value };
+    }
 
-      const parentNamesArray = Array.isArray(parentNames) ? parentNames : [parentNames];
-      const isMultiParent = parentNamesArray.length > 1;
+    this.storeVersion++;
+    this.snapshotCache.delete(config.name);
+    this.filteredOptionsCache.delete(config.name);
+
+    const affected = [config.name, ...this.fieldRelationships.get(config.name)!.children];
+    this.scheduleNotifications(affected);
+
+    if (!areValuesEqual(this.fieldValues[config.name], value)) {
+      const previousValues = this.fieldValues;
+      this.fieldValues = { ...previousValues, [config.name]: value };
+      this.syncToForm([{ name: config.name, value }]);
+      this.handleValuesCommitted([config.name]);
+      this.emitValueChange(config.name, [], previousValues);
+    } else {
+      this.updateFieldRules();
+    }
+
+    if (typeof config.options === 'function') {
+      const parent = this.getAsyncParentValue(config);
+      if (parent.ready) this.loadAsyncOptions(config.name, parent.value);
+    }
+  };
+
+  /**
+   * Unregister a runtime field.
+   * The value is kept (re-registering restores it) unless `clearValue`,
+   * which also cascades to the field's children.
+   */
+  unregisterField = (fieldName: string, options: { clearValue?: boolean } = {}): void => {
+    if (this.isDestroyed) return;
+
+    const config = this.configLookup.get(fieldName);
+    if (!config) return;
+
+    if (options.clearValue && !isEmpty(this.fieldValues[fieldName])) {
+      const previousValues = this.fieldValues;
+      const cleared = Array.isArray(previousValues[fieldName]) ? [] : undefined;
+      const newValues = { ...previousValues, [fieldName]: cleared };
+      const changes: FieldChange[] = [{ name: fieldName, value: cleared }];
+      this.cascadeDeleteDescendants(fieldName, newValues, changes);
+
+      this.storeVersion++;
+      this.fieldValues = newValues;
+      this.syncToForm(changes);
+      this.scheduleNotifications(changes.map((c) => c.name));
+      this.emitValueChange(fieldName, changes.slice(1), previousValues);
+    }
+
+    const children = this.fieldRelationships.get(fieldName)?.children ?? [];
+
+    this.optionsLoads.get(fieldName)?.controller.abort();
+    this.optionsLoads.delete(fieldName);
+    this.pendingCascades.delete(fieldName);
+    this.defaultRuns.delete(fieldName);
+    this.activeOptionsKeys.delete(fieldName);
+    this.asyncOptionsCache.delete(fieldName);
+    this.optionsErrors.delete(fieldName);
+    this.fieldErrors.delete(fieldName);
+    this.snapshotCache.delete(fieldName);
+    this.filteredOptionsCache.delete(fieldName);
+
+    this.detachRelationship(config);
+    this.applyConfigs(this.fieldConfigs.filter((c) => c.name !== fieldName));
+
+    this.storeVersion++;
+    this.scheduleNotifications([fieldName, ...children]);
+    this.handleValuesCommitted(children);
+  };
+
+  /**
+   * Stable row keys of a field array (one per row, in row order).
+   */
+  getRowKeys = (arrayName: string): readonly number[] => {
+    return this.fieldArrays.get(arrayName)?.rowKeys ?? EMPTY_ROW_KEYS;
+  };
+
+  /**
+   * Append a row to a field array and return its index.
+   * `values` are keyed by template field (`{ member: 1 }` for `items[].member`).
+   */
+  addRow = (arrayName: string, values: FieldValues = {}): number => {
+    const fieldArray = this.fieldArrays.get(arrayName);
+    if (this.isDestroyed || !fieldArray) return -1;
+
+    const index = fieldArray.rowKeys.length;
+    this.fieldArrays.set(arrayName, {
+      ...fieldArray,
+      rowKeys: [...fieldArray.rowKeys, this.nextRowKey++],
+    });
+    this.writeToForm((adapter) =>
+      adapter.onRowChange?.({ arrayName, type: 'add', index }),
+    );
+
+    for (const template of fieldArray.templates) {
+      this.registerField(toRowConfig(template, index));
+    }
+
+    const rowValues: FieldValues = {};
+    for (const [field, value] of Object.entries(values)) {
+      rowValues[`${arrayName}[${index}].${field}`] = value;
+    }
+    this.restoreValues(rowValues);
+
+    this.emitRowChange({ arrayName, type: 'add', index });
+    return index;
+  };
+
+  /**
+   * Remove a row; later rows shift up (values move with their row).
+   */
+  removeRow = (arrayName: string, index: number): void => {
+    const fieldArray = this.fieldArrays.get(arrayName);
+    if (this.isDestroyed || !fieldArray) return;
+
+    const { rowKeys } = fieldArray;
+    if (index < 0 || index >= rowKeys.length) return;
+
+    const order = rowKeys.map((_, i) => i).filter((i) => i !== index);
+    this.fieldArrays.set(arrayName, {
+      ...fieldArray,
+      rowKeys: rowKeys.filter((_, i) => i !== index),
+    });
+    this.writeToForm((adapter) =>
+      adapter.onRowChange?.({ arrayName, type: 'remove', index }),
+    );
+
+    // Last row is now empty - cleared in the same commit, then its fields
+    // are dropped (children first)
+    const lastIndex = rowKeys.length - 1;
+    const lastRowNames = fieldArray.templates.map((t) => toRowFieldName(t.name, lastIndex));
+    this.reorderRows(fieldArray.templates, order, lastRowNames);
+
+    const newValues = { ...this.fieldValues };
+    for (const template of [...fieldArray.templates].reverse()) {
+      const name = toRowFieldName(template.name, lastIndex);
+      this.unregisterField(name);
+      delete newValues[name];
+    }
+    this.fieldValues = newValues;
+
+    this.emitRowChange({ arrayName, type: 'remove', index });
+  };
+
+  /**
+   * Move a row to another position (values move with their row).
+   */
+  moveRow = (arrayName: string, from: number, to: number): void => {
+    const fieldArray = this.fieldArrays.get(arrayName);
+    if (this.isDestroyed || !fieldArray) return;
+
+    const { rowKeys } = fieldArray;
+    const count = rowKeys.length;
+    if (from === to || from < 0 || to < 0 || from >= count || to >= count) return;
+
+    const order = rowKeys.map((_, i) => i);
+    order.splice(to, 0, ...order.splice(from, 1));
+
+    this.fieldArrays.set(arrayName, {
+      ...fieldArray,
+      rowKeys: order.map((i) => rowKeys[i]),
+    });
+    this.writeToForm((adapter) =>
+      adapter.onRowChange?.({ arrayName, type: 'move', index: from, toIndex: to }),
+    );
+
+    this.reorderRows(fieldArray.templates, order);
+
+    this.emitRowChange({ arrayName, type: 'move', index: from, toIndex: to });
+  };
+
+  /**
+   * Set form adapter.
+   * Replacing an adapter (Formik creates one per render) only pulls the
+   * form values that differ from the store - children the form did not
+   * change cascade as usual.
+   */
+  setAdapter = (adapter?: FormAdapter): void => {
+    if (this.isDestroyed || adapter === this.formAdapter) return;
+
+    const isReplacing = !!this.formAdapter;
+    this.disconnectAdapter?.();
+    this.formAdapter = adapter;
+    this.connectAdapter(isReplacing);
+  };
+
+  /**
+   * Sync controlled values.
+   */
+  syncControlledValue = (controlledValue: FieldValues): void => {
+    if (this.isDestroyed) return;
+
+    const changedFields: string[] = [];
+    const prevValues = this.fieldValues;
+
+    for (const fieldName of this.fieldNameSet) {
+      if (prevValues[fieldName] !== controlledValue[fieldName]) {
+        changedFields.push(fieldName);
+      }
+    }
+
+    if (changedFields.length === 0) return;
+
+    this.storeVersion++;
+    this.fieldValues = controlledValue;
+    this.scheduleNotifications(changedFields);
+    this.handleValuesCommitted(changedFields);
+
+    this.emit(
+      'sync:controlled',
+      { changedFields, values: controlledValue },
+      changedFields,
+    );
+  };
+
+  /**
+   * Undo the last setValue/setValues (cascade included).
+   * Returns false when there is nothing to undo.
+   */
+  undo = (): boolean => {
+    if (this.isDestroyed || this.pastValues.length === 0) return false;
+
+    const target = this.pastValues.pop()!;
+    this.futureValues.push(this.fieldValues);
+    this.applyHistorySnapshot(target);
+    this.updateHistoryState();
+
+    return true;
+  };
+
+  /**
+   * Redo the last undone step.
+   * Returns false when there is nothing to redo.
+   */
+  redo = (): boolean => {
+    if (this.isDestroyed || this.futureValues.length === 0) return false;
+
+    const target = this.futureValues.pop()!;
+    this.pastValues.push(this.fieldValues);
+    this.applyHistorySnapshot(target);
+    this.updateHistoryState();
+
+    return true;
+  };
+
+  canUndo = (): boolean => this.historyState.canUndo;
+
+  canRedo = (): boolean => this.historyState.canRedo;
+
+  /**
+   * Get undo/redo availability (stable reference until it changes).
+   */
+  getHistoryState = (): HistoryState => {
+    return this.historyState;
+  };
+
+  /**
+   * Drop all undo/redo steps.
+   */
+  clearHistory = (): void => {
+    this.pastValues = [];
+    this.futureValues = [];
+    this.updateHistoryState();
+  };
+
+  /**
+   * Validate all fields (e.g. on submit).
+   * Marks every validated field as touched.
+   * Resolves with errors of invalid fields only - empty object when valid.
+   *
+   * @example
+   * ```ts
+   * const errors = await store.validate();
+   * if (Object.keys(errors).length === 0) submit(store.getValues());
+   * ```
+   */
+  validate = async (): Promise<Record<string, string[]>> => {
+    if (this.isDestroyed) return {};
+
+    const fieldNames = this.fieldConfigs
+      .filter((config) => config.validation)
+      .map((config) => config.name);
+
+    this.markTouched(fieldNames);
+    this.storeVersion++;
+    this.scheduleNotifications(fieldNames);
+
+    await this.runValidation(fieldNames);
+
+    return this.getErrors();
+  };
+
+  /**
+   * Validate a single field.
+   * Resolves with the field's errors.
+   */
+  validateField = async (fieldName: string): Promise<string[]> => {
+    if (this.isDestroyed) return [];
+
+    await this.runValidation([fieldName]);
+
+    return [...(this.fieldErrors.get(fieldName) ?? EMPTY_ERRORS)];
+  };
+
+  /**
+   * Get current errors of invalid fields.
+   */
+  getErrors = (): Record<string, string[]> => {
+    const result: Record<string, string[]> = {};
+    for (const [fieldName, errors] of this.fieldErrors) {
+      if (errors.length > 0) result[fieldName] = [...errors];
+    }
+    return result;
+  };
+
+  // ============================================================================
+  // SUBSCRIPTIONS
+  // ============================================================================
+
+  /**
+   * Subscribe to field changes.
+   */
+  subscribe = (fieldName: string, listener: StoreListener): (() => void) => {
+    let subscribers = this.fieldSubscribers.get(fieldName);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.fieldSubscribers.set(fieldName, subscribers);
+    }
+    subscribers.add(listener);
+
+    return () => {
+      const subs = this.fieldSubscribers.get(fieldName);
+      if (subs) {
+        subs.delete(listener);
+        if (subs.size === 0) {
+          this.fieldSubscribers.delete(fieldName);
+        }
+      }
+    };
+  };
+
+  /**
+   * Subscribe to undo/redo availability changes.
+   */
+  subscribeHistory = (listener: StoreListener): (() => void) => {
+    this.historySubscribers.add(listener);
+    return () => {
+      this.historySubscribers.delete(listener);
+    };
+  };
+
+  /**
+   * Listen to a store event for all fields.
+   *
+   * @example
+   * ```ts
+   * const off = store.on('value:change', ({ fieldName, previousValue, newValue }) => {
+   *   analytics.track('select_change', { fieldName, previousValue, newValue });
+   * });
+   * ```
+   */
+  on = <TEvent extends StoreEventType>(
+    event: TEvent,
+    listener: StoreEventListener<TEvent>,
+  ): (() => void) => {
+    let listeners = this.eventListeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(event, listeners);
+    }
+    listeners.add(listener as AnyEventListener);
+
+    return () => {
+      const current = this.eventListeners.get(event);
+      if (current) {
+        current.delete(listener as AnyEventListener);
+        if (current.size === 0) {
+          this.eventListeners.delete(event);
+        }
+      }
+    };
+  };
+
+  /**
+   * Listen to a store event for a single field.
+   *
+   * `cascade:delete` is delivered to the source field AND every affected field.
+   */
+  onField = <TEvent extends StoreEventType>(
+    fieldName: string,
+    event: TEvent,
+    listener: StoreEventListener<TEvent>,
+  ): (() => void) => {
+    let byEvent = this.fieldEventListeners.get(fieldName);
+    if (!byEvent) {
+      byEvent = new Map();
+      this.fieldEventListeners.set(fieldName, byEvent);
+    }
+
+    let listeners = byEvent.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      byEvent.set(event, listeners);
+    }
+    listeners.add(listener as AnyEventListener);
+
+    return () => {
+      const current = this.fieldEventListeners.get(fieldName);
+      const set = current?.get(event);
+      if (!current || !set) return;
+
+      set.delete(listener as AnyEventListener);
+      if (set.size === 0) current.delete(event);
+      if (current.size === 0) this.fieldEventListeners.delete(fieldName);
+    };
+  };
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  /**
+   * Destroy store.
+   */
+  destroy = (): void => {
+    this.isDestroyed = true;
+    this.disconnectAdapter?.();
+    this.disconnectAdapter = undefined;
+    this.pendingMetaFields.clear();
+    this.fieldSubscribers.clear();
+    this.eventListeners.clear();
+    this.fieldEventListeners.clear();
+    this.snapshotCache.clear();
+    this.filteredOptionsCache.clear();
+    for (const load of this.optionsLoads.values()) {
+      load.controller.abort();
+    }
+    this.optionsLoads.clear();
+    for (const optionsFetch of this.optionsFetches.values()) {
+      optionsFetch.controller.abort();
+    }
+    this.optionsFetches.clear();
+    this.pendingCascades.clear();
+    this.defaultRuns.clear();
+    this.overriddenFieldNames.clear();
+    this.fieldErrors.clear();
+    this.validationRuns.clear();
+    this.historySubscribers.clear();
+    this.pastValues = [];
+    this.futureValues = [];
+    this.asyncOptionsCache.clear();
+    this.activeOptionsKeys.clear();
+    this.optionsErrors.clear();
+    this.externalOptionsMap.clear();
+  };
+
+  // ============================================================================
+  // PRIVATE - Options Resolution
+  // ============================================================================
+
+  private resolveOptions(
+    fieldName: string,
+    externalOptions?: XSelectOption[],
+  ): XSelectOption[] {
+    if (externalOptions) return externalOptions;
+
+    const stored = this.externalOptionsMap.get(fieldName);
+    if (stored) return stored;
+
+    const config = this.configLookup.get(fieldName);
+    if (!config) return EMPTY_ARRAY as XSelectOption[];
+
+    if (typeof config.options === 'function') {
+      const key = this.activeOptionsKeys.get(fieldName);
+      const entry =
+        key === undefined ? undefined : this.asyncOptionsCache.get(fieldName)?.get(key);
+      return entry?.options ?? (EMPTY_ARRAY as XSelectOption[]);
+    }
+
+    return config.options ?? (EMPTY_ARRAY as XSelectOption[]);
+  }
+
+  private areOptionsShallowEqual(a: XSelectOption[], b: XSelectOption[]): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i].value !== b[i].value) return false;
+
+      const aPV = a[i].parentValue;
+      const bPV = b[i].parentValue;
+
+      if (aPV !== bPV) {
+        if (Array.isArray(aPV) && Array.isArray(bPV)) {
+          if (aPV.length !== bPV.length) return false;
+          for (let j = 0; j < aPV.length; j++) {
+            if (aPV[j] !== bPV[j]) return false;
+          }
+        } else {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  // ============================================================================
+  // PRIVATE - Cascade Delete
+  // ============================================================================
+
+  private cascadeDeleteDescendants(
+    fieldName: string,
+    values: FieldValues,
+    changes: FieldChange[],
+    keepFields?: ReadonlySet<string>,
+  ): void {
+    const descendants = this.getDescendantsOf(fieldName);
+    const changedNames = new Set([fieldName]);
+
+    for (const descendant of descendants) {
+      if (keepFields?.has(descendant)) continue;
+
+      const relationship = this.fieldRelationships.get(descendant);
+      const parentNames = relationship?.parent;
+      if (!parentNames) continue;
+
+      // Only react when a direct parent changed (e.g. parent kept by its policy)
+      const parentNamesArray = Array.isArray(parentNames) ? parentNames : [parentNames];
+      if (!parentNamesArray.some((name) => changedNames.has(name))) continue;
+
+      const descendantConfig = this.configLookup.get(descendant);
+      if (descendantConfig?.compute) {
+        this.overriddenFieldNames.delete(descendant);
+        const computed = this.computeFieldValue(descendantConfig, values);
+        if (!areValuesEqual(values[descendant], computed)) {
+          values[descendant] = computed;
+          changes.push({ name: descendant, value: computed, policy: 'compute' });
+          changedNames.add(descendant);
+        }
+        continue;
+      }
+
+      const policy = descendantConfig?.onParentChange ?? 'clear';
+      if (policy !== 'clear') {
+        const resolved = this.resolveCascadePolicy(descendant, policy, values);
+        if (!areValuesEqual(values[descendant], resolved)) {
+          values[descendant] = resolved;
+          changes.push({
+            name: descendant,
+            value: resolved,
+            policy: typeof policy === 'function' ? 'custom' : policy,
+          });
+          changedNames.add(descendant);
+        }
+        continue;
+      }
+
+      const currentValue = values[descendant];
+      if (currentValue === undefined || currentValue === null) continue;
+
+      const hasValue = Array.isArray(currentValue)
+        ? currentValue.length > 0
+        : true;
+      if (!hasValue) continue;
+
+      const isMultiParent = parentNamesArray.length > 1;
 
       // Check if all parents are empty
       const allParentsEmpty = parentNamesArray.every((name) => {
@@ -549,85 +1580,895 @@ export class XSelectStore {
         return false;
       });
 
-      // All parents empty -> clear child
-      if (allParentsEmpty) {
-        const clearedValue = Array.isArray(currentValue) ? [] : undefined;
-        if (!areValuesEqual(currentValue, clearedValue)) {
-          values[descendant] = clearedValue;
-          changes.push({ name: descendant, value: clearedValue });
-        }
-        continue;
-      }
-      // Smart cascade with parentValue
-      const options = this.resolveOptions(descendant);
-      const hasParentValue = options.some((o) => o.parentValue !== undefined);
+      // All parents empty -> clear child
+      if (allParentsEmpty) {
+        const clearedValue = Array.isArray(currentValue) ? [] : undefined;
+        if (!areValuesEqual(currentValue, clearedValue)) {
+          values[descendant] = clearedValue;
+          changes.push({ name: descendant, value: clearedValue, policy: 'clear' });
+          changedNames.add(descendant);
+        }
+        continue;
+      }
+
+      // "Select all matching" -> narrow its parent snapshot to remaining parents
+      if (isAllMatchingValue(currentValue)) {
+        const parentValue = isMultiParent
+          ? Object.fromEntries(parentNamesArray.map((name) => [name, values[name]]))
+          : values[parentNamesArray[0]];
+        const narrowedValue = narrowAllMatchingValue(
+          currentValue,
+          parentValue,
+          isMultiParent,
+        );
+        if (narrowedValue !== currentValue) {
+          values[descendant] = narrowedValue;
+          changes.push({ name: descendant, value: narrowedValue, policy: 'clear' });
+          changedNames.add(descendant);
+        }
+        continue;
+      }
+
+      // Smart cascade with parentValue
+      const options = this.resolveOptions(descendant);
+      const hasParentValue = options.some((o) => o.parentValue !== undefined);
+
+      if (hasParentValue) {
+        let newValue: unknown;
+
+        if (isMultiParent) {
+          // Multi-parent: use cascadeDeleteMultiParent with object format
+          const remainingParentValuesMap: Record<string, (string | number)[]> = {};
+          for (const parentName of parentNamesArray) {
+            const parentValue = values[parentName];
+            if (Array.isArray(parentValue)) {
+              remainingParentValuesMap[parentName] = parentValue as (string | number)[];
+            } else if (parentValue !== null && parentValue !== undefined) {
+              remainingParentValuesMap[parentName] = [parentValue as string | number];
+            } else {
+              remainingParentValuesMap[parentName] = [];
+            }
+          }
+
+          newValue = cascadeDeleteMultiParent(
+            currentValue as string | number | (string | number)[] | null | undefined,
+            remainingParentValuesMap,
+            options,
+          );
+        } else {
+          // Single parent: use original cascadeDelete
+          const allParentValues = this.collectParentValues(parentNames, values);
+          newValue = cascadeDelete(
+            currentValue as string | number | (string | number)[] | null | undefined,
+            allParentValues as (string | number)[],
+            options,
+          );
+        }
+
+        if (!areValuesEqual(currentValue, newValue)) {
+          values[descendant] = newValue;
+          changes.push({ name: descendant, value: newValue, policy: 'clear' });
+          changedNames.add(descendant);
+        }
+      } else {
+        // No parentValue in options -> clear on parent change
+        const clearedValue = Array.isArray(currentValue) ? [] : undefined;
+        if (!areValuesEqual(currentValue, clearedValue)) {
+          values[descendant] = clearedValue;
+          changes.push({ name: descendant, value: clearedValue, policy: 'clear' });
+          changedNames.add(descendant);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve a non-'clear' cascade policy against the new parent values.
+   * Async options not loaded yet → the check is deferred until they land
+   * (see `applyPendingCascade`).
+   */
+  private resolveCascadePolicy(
+    fieldName: string,
+    policy: Exclude<CascadePolicy, 'clear'>,
+    values: FieldValues,
+  ): unknown {
+    const config = this.configLookup.get(fieldName)!;
+    const value = values[fieldName];
+    const emptyValue = Array.isArray(value) ? [] : undefined;
+
+    this.pendingCascades.delete(fieldName);
+
+    const parent = this.getAsyncParentValue(config, values);
+    const options = parent.ready ? this.getCascadeOptions(config, parent.value) : undefined;
+
+    if (typeof policy === 'function') {
+      return policy({
+        fieldName,
+        value,
+        parentValue: this.getAsyncParentValue(config, values, true).value,
+        previousParentValue: this.getAsyncParentValue(config, this.fieldValues, true).value,
+        options,
+        defaultValue: config.defaultValue,
+      });
+    }
+
+    if (!parent.ready) return emptyValue;
+
+    if (policy === 'reset-to-default') {
+      const defaultValue = this.resolveDefaultValue(config, values);
+      return defaultValue !== undefined ? defaultValue : emptyValue;
+    }
+
+    if (!options) {
+      if (typeof config.options === 'function') {
+        this.pendingCascades.set(fieldName, { key: toOptionsKey(parent.value), policy });
+      }
+      // keep-if-valid: keep until verifiable; auto-select-single: select once loaded
+      return policy === 'keep-if-valid' ? value : emptyValue;
+    }
+
+    return applyOptionsPolicy(policy, config, value, options);
+  }
+
+  /**
+   * Options available for a parent value without fetching.
+   * Undefined when unknown (async options not cached, or no options at all).
+   */
+  private getCascadeOptions(
+    config: FieldConfig,
+    parentValue: unknown,
+  ): XSelectOption[] | undefined {
+    const external = this.externalOptionsMap.get(config.name);
+
+    if (!external && typeof config.options === 'function') {
+      const key = toOptionsKey(parentValue);
+      return this.asyncOptionsCache.get(config.name)?.get(key)?.options;
+    }
+
+    const options = external ?? (config.options as XSelectOption[] | undefined);
+    if (!options) return undefined;
+
+    const filterFn = config.filterOptions ?? filterOptionsByParent;
+    return config.filterOptions || options.some((o) => o.parentValue !== undefined)
+      ? filterFn(options, parentValue)
+      : options;
+  }
+
+  /**
+   * Apply a deferred cascade policy once async options for its parent value landed.
+   */
+  private applyPendingCascade(
+    fieldName: string,
+    key: string,
+    options: XSelectOption[],
+  ): void {
+    const pending = this.pendingCascades.get(fieldName);
+    if (!pending || pending.key !== key) return;
+    this.pendingCascades.delete(fieldName);
+
+    const config = this.configLookup.get(fieldName)!;
+    const currentValue = this.fieldValues[fieldName];
+    const newValue = applyOptionsPolicy(pending.policy, config, currentValue, options);
+    if (areValuesEqual(currentValue, newValue)) return;
+
+    const previousValues = this.fieldValues;
+    const newValues = { ...previousValues, [fieldName]: newValue };
+    const changes: FieldChange[] = [
+      { name: fieldName, value: newValue, policy: pending.policy },
+    ];
+    this.cascadeDeleteDescendants(fieldName, newValues, changes);
+
+    this.storeVersion++;
+    this.fieldValues = newValues;
+
+    const changedNames = changes.map((c) => c.name);
+    this.runValidation(changedNames);
+    this.scheduleNotifications(changedNames);
+    this.syncToForm(changes);
+    this.handleValuesCommitted(changedNames);
+
+    // Reported as a cascade of the parent change
+    const parentName = normalizeDependsOn(config.dependsOn)[0];
+    this.emit(
+      'value:change',
+      {
+        fieldName,
+        previousValue: currentValue,
+        newValue,
+        cascadedFields: changedNames.slice(1),
+      },
+      [fieldName],
+    );
+    this.emitCascade(parentName, changes, previousValues);
+  }
+
+  private collectParentValues(
+    parentNames: string | string[] | null,
+    values: FieldValues,
+  ): unknown[] {
+    if (!parentNames) return [];
+
+    const names = Array.isArray(parentNames) ? parentNames : [parentNames];
+    const result: unknown[] = [];
+
+    for (const name of names) {
+      const value = values[name];
+      if (Array.isArray(value)) {
+        result.push(...value);
+      } else if (value !== null && value !== undefined) {
+        result.push(value);
+      }
+    }
+
+    return result;
+  }
+
+  // ============================================================================
+  // PRIVATE - History
+  // ============================================================================
+
+  private recordHistory(previousValues: FieldValues): void {
+    if (this.historyLimit <= 0) return;
+
+    this.pastValues.push(previousValues);
+    if (this.pastValues.length > this.historyLimit) {
+      this.pastValues.shift();
+    }
+    this.futureValues = [];
+    this.updateHistoryState();
+  }
+
+  private updateHistoryState(): void {
+    const canUndo = this.pastValues.length > 0;
+    const canRedo = this.futureValues.length > 0;
+
+    if (canUndo === this.historyState.canUndo && canRedo === this.historyState.canRedo) {
+      return;
+    }
+
+    this.historyState = { canUndo, canRedo };
+    for (const listener of this.historySubscribers) {
+      listener();
+    }
+  }
+
+  /**
+   * Apply a history snapshot as-is (it was consistent when recorded,
+   * so no cascade runs).
+   */
+  private applyHistorySnapshot(target: FieldValues): void {
+    const newValues = { ...this.fieldValues };
+    for (const fieldName of this.fieldOrder) {
+      newValues[fieldName] = target[fieldName];
+    }
+
+    this.commitValues(newValues);
+  }
+
+  /**
+   * Commit a complete, already-consistent value set (no cascade):
+   * validate, notify, sync the form in one batch and emit value:change
+   * for every field that differs. `storeOnlyFieldNames` are not written
+   * to the form.
+   */
+  private commitValues(
+    newValues: FieldValues,
+    storeOnlyFieldNames?: ReadonlySet<string>,
+  ): FieldChange[] {
+    const previousValues = this.fieldValues;
+    const changes: FieldChange[] = [];
+
+    for (const fieldName of this.fieldOrder) {
+      if (!areValuesEqual(previousValues[fieldName], newValues[fieldName])) {
+        changes.push({ name: fieldName, value: newValues[fieldName] });
+      }
+    }
+
+    if (changes.length === 0) return changes;
+
+    this.storeVersion++;
+    this.fieldValues = newValues;
+    this.runValidation(changes.map((c) => c.name));
+
+    this.scheduleNotifications(changes.map((c) => c.name));
+    this.syncToForm(
+      storeOnlyFieldNames?.size
+        ? changes.filter((c) => !storeOnlyFieldNames.has(c.name))
+        : changes,
+    );
+    this.handleValuesCommitted(changes.map((c) => c.name));
+
+    for (const { name } of changes) {
+      this.emitValueChange(name, [], previousValues);
+    }
+
+    return changes;
+  }
+
+  private finishReset(
+    mode: 'reset' | 'clear',
+    fieldNames: readonly string[],
+    newValues: FieldValues,
+  ): void {
+    const previousValues = this.fieldValues;
+    const changes = this.commitValues(newValues);
+    if (changes.length > 0) this.recordHistory(previousValues);
+
+    const resetFields = [...new Set([...fieldNames, ...changes.map((c) => c.name)])];
+    const touched = new Set(this.touchedFieldNames);
+    for (const name of resetFields) touched.delete(name);
+    if (touched.size !== this.touchedFieldNames.size) {
+      this.touchedFieldNames = touched;
+      this.storeVersion++;
+      this.scheduleNotifications(resetFields);
+      this.syncMetaToForm(resetFields);
+    }
+
+    this.emit(
+      'values:reset',
+      { mode, fieldNames: resetFields, values: this.fieldValues },
+      resetFields,
+    );
+  }
+
+  // ============================================================================
+  // PRIVATE - Field Registration
+  // ============================================================================
+
+  /**
+   * Replace config-derived lookups (relationships are updated separately).
+   */
+  private applyConfigs(configs: FieldConfig[]): void {
+    this.fieldConfigs = Object.freeze(configs);
+    this.configLookup = new Map(configs.map((c) => [c.name, c]));
+    this.fieldNameSet = new Set(configs.map((c) => c.name));
+    this.fieldOrder = sortFieldsByDependency(configs);
+    this.getDescendantsOf = createDescendantsGetter(this.fieldRelationships);
+    this.hasFieldRules = configs.some((c) => c.visibleWhen || c.disabledWhen);
+  }
+
+  /**
+   * Add a field to the relationship map: its own entry (children that were
+   * registered before it included) and its name in each parent's children.
+   */
+  private attachRelationship(config: FieldConfig): void {
+    const parentNames = normalizeDependsOn(config.dependsOn);
+    const children = this.fieldConfigs
+      .filter((c) => normalizeDependsOn(c.dependsOn).includes(config.name))
+      .map((c) => c.name);
+
+    this.fieldRelationships.set(config.name, {
+      parent: config.dependsOn ?? null,
+      children,
+    });
+
+    for (const parentName of parentNames) {
+      const parent = this.fieldRelationships.get(parentName);
+      if (parent && !parent.children.includes(config.name)) {
+        this.fieldRelationships.set(parentName, {
+          ...parent,
+          children: [...parent.children, config.name],
+        });
+      }
+    }
+
+    this.getDescendantsOf = createDescendantsGetter(this.fieldRelationships);
+  }
+
+  /**
+   * Remove a field from the relationship map.
+   * Children keep pointing at it (treated as an empty parent).
+   */
+  private detachRelationship(config: FieldConfig): void {
+    this.fieldRelationships.delete(config.name);
+
+    for (const parentName of normalizeDependsOn(config.dependsOn)) {
+      const parent = this.fieldRelationships.get(parentName);
+      if (parent) {
+        this.fieldRelationships.set(parentName, {
+          ...parent,
+          children: parent.children.filter((name) => name !== config.name),
+        });
+      }
+    }
+
+    this.getDescendantsOf = createDescendantsGetter(this.fieldRelationships);
+  }
+
+  // ============================================================================
+  // PRIVATE - Field Arrays
+  // ============================================================================
+
+  /**
+   * Split row templates out of `configs` and instantiate one row per index
+   * found in `initialValues` (`items[1].project` → 2 rows).
+   */
+  private expandFieldArrays(
+    configs: FieldConfig[],
+    initialValues: FieldValues,
+  ): FieldConfig[] {
+    const templates = configs.filter((c) => getFieldArrayName(c.name));
+    if (templates.length === 0) return configs;
+
+    const rowCounts = new Map<string, number>();
+    for (const name of Object.keys(initialValues)) {
+      const row = parseRowFieldName(name);
+      if (row) {
+        const count = Math.max(rowCounts.get(row.arrayName) ?? 0, row.index + 1);
+        rowCounts.set(row.arrayName, count);
+      }
+    }
+
+    const order = sortFieldsByDependency(templates);
+    const expanded = configs.filter((c) => !getFieldArrayName(c.name));
+
+    for (const template of templates) {
+      const arrayName = getFieldArrayName(template.name)!;
+      if (this.fieldArrays.has(arrayName)) continue;
+
+      const arrayTemplates = templates
+        .filter((t) => getFieldArrayName(t.name) === arrayName)
+        .sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+      const rowCount = rowCounts.get(arrayName) ?? 0;
+
+      this.fieldArrays.set(arrayName, {
+        templates: arrayTemplates,
+        rowKeys: Array.from({ length: rowCount }, () => this.nextRowKey++),
+      });
+
+      for (let index = 0; index < rowCount; index++) {
+        expanded.push(...arrayTemplates.map((t) => toRowConfig(t, index)));
+      }
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Rewrite row values so row `i` holds the values of row `order[i]`.
+   * Rows keep their own consistent values, so no cascade runs.
+   * `removedFieldNames` (a removed last row) are cleared in the store only -
+   * the form already dropped that row.
+   */
+  private reorderRows(
+    templates: FieldConfig[],
+    order: number[],
+    removedFieldNames: string[] = [],
+  ): void {
+    const newValues = { ...this.fieldValues };
+
+    order.forEach((sourceIndex, index) => {
+      for (const template of templates) {
+        newValues[toRowFieldName(template.name, index)] =
+          this.fieldValues[toRowFieldName(template.name, sourceIndex)];
+      }
+    });
+    for (const name of removedFieldNames) newValues[name] = undefined;
+
+    this.commitValues(newValues, new Set(removedFieldNames));
+  }
+
+  private emitRowChange(change: RowChange): void {
+    const { rowKeys } = this.fieldArrays.get(change.arrayName)!;
+    this.emit('rows:change', { ...change, fieldName: change.arrayName, rowKeys }, [
+      change.arrayName,
+    ]);
+  }
+
+  // ============================================================================
+  // PRIVATE - Visibility / Enablement Rules
+  // ============================================================================
+
+  /**
+   * Side effects of committed value changes.
+   */
+  private handleValuesCommitted(changedFields: string[]): void {
+    this.reloadDependentOptions(changedFields);
+    this.updateFieldRules();
+  }
+
+  private evaluateRule(
+    config: FieldConfig,
+    rule: 'visibleWhen' | 'disabledWhen',
+    values: FieldValues,
+  ): boolean {
+    const predicate = config[rule];
+    if (!predicate) return rule === 'visibleWhen';
+
+    try {
+      return predicate(values);
+    } catch (error) {
+      console.error(`[XSelectStore] ${rule} failed for "${config.name}":`, error);
+      return rule === 'visibleWhen';
+    }
+  }
+
+  /**
+   * Evaluate rules against `values` and clear hidden fields configured with
+   * `clearWhenHidden` (with cascade), until stable. Mutates `values`.
+   */
+  private applyFieldRules(values: FieldValues, changes: FieldChange[]): void {
+    let hidden = new Set<string>();
+    let disabled = new Set<string>();
+
+    // Each pass clears at least one field, so this terminates
+    for (let pass = 0; pass <= this.fieldOrder.length; pass++) {
+      hidden = new Set();
+      disabled = new Set();
+
+      for (const config of this.fieldConfigs) {
+        if (!this.evaluateRule(config, 'visibleWhen', values)) hidden.add(config.name);
+        if (this.evaluateRule(config, 'disabledWhen', values)) disabled.add(config.name);
+      }
+
+      const toClear: string[] = [];
+      for (const name of this.fieldOrder) {
+        const clearWhenHidden = this.configLookup.get(name)!.clearWhenHidden;
+        if (hidden.has(name) && clearWhenHidden && !isEmpty(values[name])) {
+          toClear.push(name);
+        }
+      }
+      if (toClear.length === 0) break;
+
+      for (const name of toClear) {
+        // May already be cleared by an earlier field's cascade
+        if (isEmpty(values[name])) continue;
+
+        const cleared = Array.isArray(values[name]) ? [] : undefined;
+        values[name] = cleared;
+        changes.push({ name, value: cleared });
+        this.cascadeDeleteDescendants(name, values, changes);
+      }
+    }
+
+    this.hiddenFieldNames = hidden;
+    this.ruleDisabledFieldNames = disabled;
+  }
+
+  /**
+   * Re-evaluate rules after a value change; notifies fields whose
+   * visibility/enablement flipped and commits hidden-field clears.
+   */
+  private updateFieldRules(): void {
+    if (!this.hasFieldRules) return;
+
+    const previousHidden = this.hiddenFieldNames;
+    const previousDisabled = this.ruleDisabledFieldNames;
+    const previousValues = this.fieldValues;
+    const newValues = { ...previousValues };
+    const changes: FieldChange[] = [];
+
+    this.applyFieldRules(newValues, changes);
+
+    const flipped = this.fieldOrder.filter(
+      (name) =>
+        previousHidden.has(name) !== this.hiddenFieldNames.has(name) ||
+        previousDisabled.has(name) !== this.ruleDisabledFieldNames.has(name),
+    );
+
+    if (flipped.length === 0 && changes.length === 0) return;
+
+    this.storeVersion++;
+    this.fieldValues = newValues;
+
+    const changedNames = changes.map((c) => c.name);
+    this.runValidation([...flipped, ...changedNames]);
+    this.scheduleNotifications([...flipped, ...changedNames]);
+
+    if (changes.length === 0) return;
+
+    this.syncToForm(changes);
+    this.reloadDependentOptions(changedNames);
+    for (const name of changedNames) {
+      this.emitValueChange(name, [], previousValues);
+    }
+  }
+
+  // ============================================================================
+  // PRIVATE - Computed Fields
+  // ============================================================================
+
+  /**
+   * Read-only computed fields reject user changes.
+   */
+  private canUserSet(fieldName: string): boolean {
+    const config = this.configLookup.get(fieldName);
+    return !config || !isReadOnlyComputed(config);
+  }
+
+  private markOverridden(fieldNames: Iterable<string>): void {
+    for (const name of fieldNames) {
+      if (this.configLookup.get(name)?.compute) {
+        this.overriddenFieldNames.add(name);
+      }
+    }
+  }
+
+  /**
+   * Run `compute` with parent values and the selected parent options.
+   * A throwing compute keeps the current value.
+   */
+  private computeFieldValue(config: FieldConfig, values: FieldValues): unknown {
+    const parentValues: Record<string, unknown> = {};
+    const parentOptions: Record<string, XSelectOption[]> = {};
+
+    for (const parentName of normalizeDependsOn(config.dependsOn)) {
+      const value = values[parentName];
+      const selected = new Set(normalizeToArray(value));
+
+      parentValues[parentName] = value;
+      parentOptions[parentName] = this.resolveOptions(parentName).filter((o) =>
+        selected.has(o.value),
+      );
+    }
+
+    try {
+      return config.compute!(parentValues, parentOptions);
+    } catch (error) {
+      console.error(`[XSelectStore] Failed to compute "${config.name}":`, error);
+      return values[config.name];
+    }
+  }
+
+  /**
+   * Recompute computed children once a parent's async options landed
+   * (their selected options were unknown before). User overrides are kept.
+   */
+  private recomputeChildren(fieldName: string): void {
+    const children = this.fieldRelationships.get(fieldName)?.children ?? [];
+    const newValues = { ...this.fieldValues };
+    const changes: FieldChange[] = [];
+
+    for (const child of children) {
+      const config = this.configLookup.get(child);
+      if (!config?.compute || this.overriddenFieldNames.has(child)) continue;
+
+      const computed = this.computeFieldValue(config, newValues);
+      if (areValuesEqual(newValues[child], computed)) continue;
+
+      newValues[child] = computed;
+      changes.push({ name: child, value: computed, policy: 'compute' });
+      this.cascadeDeleteDescendants(child, newValues, changes);
+    }
+
+    if (changes.length === 0) return;
+
+    const previousValues = this.fieldValues;
+    this.storeVersion++;
+    this.fieldValues = newValues;
+
+    const changedNames = changes.map((c) => c.name);
+    this.runValidation(changedNames);
+    this.scheduleNotifications(changedNames);
+    this.syncToForm(changes);
+    this.handleValuesCommitted(changedNames);
+    this.emitCascade(fieldName, changes, previousValues);
+  }
+
+  // ============================================================================
+  // PRIVATE - Default Values
+  // ============================================================================
+
+  /**
+   * True when every parent of the field has its initial value.
+   */
+  private parentsMatchInitial(fieldName: string, values: FieldValues): boolean {
+    const config = this.configLookup.get(fieldName);
+    return normalizeDependsOn(config?.dependsOn).every((parent) =>
+      areValuesEqual(values[parent], this.initialFieldValues[parent]),
+    );
+  }
+
+  /**
+   * Fill empty initial fields (parents first) with their defaults and
+   * computed values. Async defaults are applied later (see `applyAsyncDefault`).
+   */
+  private resolveInitialValues(values: FieldValues): FieldValues {
+    const result = { ...values };
+
+    for (const fieldName of this.fieldOrder) {
+      const config = this.configLookup.get(fieldName);
+      if (!config) continue;
+
+      // Read-only computed fields ignore initial values
+      if (config.compute && (isReadOnlyComputed(config) || isEmpty(result[fieldName]))) {
+        result[fieldName] = this.computeFieldValue(config, result);
+        continue;
+      }
+
+      if (!isEmpty(result[fieldName]) || config.defaultValue === undefined) continue;
+
+      const resolved = this.resolveDefaultValue(config, result, true);
+      if (resolved !== undefined) result[fieldName] = resolved;
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve a field's default for the given parent values.
+   * Returns undefined for async defaults (applied when they resolve) and
+   * while a required parent is empty.
+   */
+  private resolveDefaultValue(
+    config: FieldConfig,
+    values: FieldValues,
+    isInitial = false,
+  ): unknown {
+    const { defaultValue } = config;
+    const runId = (this.defaultRuns.get(config.name) ?? 0) + 1;
+    this.defaultRuns.set(config.name, runId);
+
+    if (typeof defaultValue !== 'function') return defaultValue;
+
+    const parent = this.getAsyncParentValue(config, values);
+    if (!parent.ready) return undefined;
+
+    let result: unknown;
+    try {
+      result = (defaultValue as DefaultValueResolver)(parent.value);
+    } catch (error) {
+      console.error(`[XSelectStore] Failed to resolve default for "${config.name}":`, error);
+      return undefined;
+    }
+
+    if (!isPromiseLike(result)) return result;
+
+    const parentKey = toOptionsKey(parent.value);
+    Promise.resolve(result).then(
+      (value) => this.applyAsyncDefault(config, runId, parentKey, value, isInitial),
+      (error) => {
+        console.error(`[XSelectStore] Failed to resolve default for "${config.name}":`, error);
+      },
+    );
+    return undefined;
+  }
+
+  /**
+   * Apply an async default while the field is still empty and its parent
+   * value did not change in the meantime.
+   */
+  private applyAsyncDefault(
+    config: FieldConfig,
+    runId: number,
+    parentKey: string,
+    value: unknown,
+    isInitial: boolean,
+  ): void {
+    const fieldName = config.name;
+    if (this.isDestroyed || this.defaultRuns.get(fieldName) !== runId) return;
+    if (!isEmpty(this.fieldValues[fieldName]) || isEmpty(value)) return;
+
+    const parent = this.getAsyncParentValue(config);
+    if (!parent.ready || toOptionsKey(parent.value) !== parentKey) return;
+
+    if (isInitial && isEmpty(this.initialFieldValues[fieldName])) {
+      this.initialFieldValues = { ...this.initialFieldValues, [fieldName]: value };
+    }
+
+    const previousValues = this.fieldValues;
+    const newValues = { ...previousValues, [fieldName]: value };
+    const changes: FieldChange[] = [{ name: fieldName, value }];
+    this.cascadeDeleteDescendants(fieldName, newValues, changes);
+
+    this.storeVersion++;
+    this.fieldValues = newValues;
 
-      if (hasParentValue) {
-        let newValue: unknown;
+    const changedNames = changes.map((c) => c.name);
+    this.runValidation(changedNames);
+    this.scheduleNotifications(changedNames);
+    this.syncToForm(changes);
+    this.handleValuesCommitted(changedNames);
+    this.emitValueChange(fieldName, changes.slice(1), previousValues);
+  }
 
-        if (isMultiParent) {
-          // Multi-parent: use cascadeDeleteMultiParent with object format
-          const remainingParentValuesMap: Record<string, (string | number)[]> = {};
-          for (const parentName of parentNamesArray) {
-            const parentValue = values[parentName];
-            if (Array.isArray(parentValue)) {
-              remainingParentValuesMap[parentName] = parentValue as (string | number)[];
-            } else if (parentValue !== null && parentValue !== undefined) {
-              remainingParentValuesMap[parentName] = [parentValue as string | number];
-            } else {
-              remainingParentValuesMap[parentName] = [];
-            }
-          }
+  // ============================================================================
+  // PRIVATE - Validation
+  // ============================================================================
 
-          newValue = cascadeDeleteMultiParent(
-            currentValue as string | number | (string | number)[] | null | undefined,
-            remainingParentValuesMap,
-            options,
-          );
-        } else {
-          // Single parent: use original cascadeDelete
-          const allParentValues = this.collectParentValues(parentNames, values);
-          newValue = cascadeDelete(
-            currentValue as string | number | (string | number)[] | null | undefined,
-            allParentValues as (string | number)[],
-            options,
-          );
-        }
+  private markTouched(fieldNames: Iterable<string>): void {
+    const touched = new Set(this.touchedFieldNames);
+    const added: string[] = [];
+    for (const name of fieldNames) {
+      if (!touched.has(name)) added.push(name);
+      touched.add(name);
+    }
+    if (added.length > 0) {
+      this.touchedFieldNames = touched;
+      this.syncMetaToForm(added);
+    }
+  }
 
-        if (!areValuesEqual(currentValue, newValue)) {
-          values[descendant] = newValue;
-          changes.push({ name: descendant, value: newValue });
-        }
-      } else {
-        // No parentValue in options -> clear on parent change
-        const clearedValue = Array.isArray(currentValue) ? [] : undefined;
-        if (!areValuesEqual(currentValue, clearedValue)) {
-          values[descendant] = clearedValue;
-          changes.push({ name: descendant, value: clearedValue });
-        }
-      }
+  /**
+   * Run validation for fields. Sync rules are applied immediately,
+   * the returned promise settles when async validators finish.
+   */
+  private runValidation(fieldNames: Iterable<string>): Promise<void> {
+    const pending: Promise<void>[] = [];
+
+    for (const fieldName of new Set(fieldNames)) {
+      const result = this.validateFieldInternal(fieldName);
+      if (result) pending.push(result);
     }
+
+    return Promise.all(pending).then(() => undefined);
   }
 
-  private collectParentValues(
-    parentNames: string | string[] | null,
-    values: FieldValues,
-  ): unknown[] {
-    if (!parentNames) return [];
+  private validateFieldInternal(fieldName: string): Promise<void> | void {
+    const config = this.configLookup.get(fieldName);
+    if (!config?.validation) return;
 
-    const names = Array.isArray(parentNames) ? parentNames : [parentNames];
-    const result: unknown[] = [];
+    const runId = (this.validationRuns.get(fieldName) ?? 0) + 1;
+    this.validationRuns.set(fieldName, runId);
 
-    for (const name of names) {
-      const value = values[name];
-      if (Array.isArray(value)) {
-        result.push(...value);
-      } else if (value !== null && value !== undefined) {
-        result.push(value);
-      }
+    // Hidden fields are never invalid
+    if (this.hiddenFieldNames.has(fieldName)) {
+      this.setFieldErrors(fieldName, EMPTY_ERRORS, false);
+      return;
     }
 
-    return result;
+    const value = this.fieldValues[fieldName];
+    const ruleErrors = validateFieldRules(config, value);
+    const { validator } = config.validation;
+
+    if (ruleErrors.length > 0 || !validator) {
+      this.setFieldErrors(fieldName, ruleErrors, false);
+      return;
+    }
+
+    let result: ReturnType<typeof validator>;
+    try {
+      result = validator(value, this.fieldValues);
+    } catch (error) {
+      this.setFieldErrors(fieldName, [this.toErrorMessage(error)], false);
+      return;
+    }
+
+    if (!(result instanceof Promise)) {
+      this.setFieldErrors(fieldName, normalizeValidationResult(result), false);
+      return;
+    }
+
+    this.setFieldErrors(fieldName, this.fieldErrors.get(fieldName) ?? EMPTY_ERRORS, true);
+
+    return result.then(
+      (asyncResult) => {
+        // Ignore results superseded by a newer run
+        if (this.isDestroyed || this.validationRuns.get(fieldName) !== runId) return;
+        this.setFieldErrors(fieldName, normalizeValidationResult(asyncResult), false);
+        this.scheduleNotifications([fieldName]);
+      },
+      (error) => {
+        if (this.isDestroyed || this.validationRuns.get(fieldName) !== runId) return;
+        this.setFieldErrors(fieldName, [this.toErrorMessage(error)], false);
+        this.scheduleNotifications([fieldName]);
+      },
+    );
+  }
+
+  private setFieldErrors(
+    fieldName: string,
+    errors: readonly string[],
+    isValidating: boolean,
+  ): void {
+    const current = this.fieldErrors.get(fieldName) ?? EMPTY_ERRORS;
+    if (!areValuesEqual(current, errors)) {
+      this.fieldErrors.set(fieldName, errors.length > 0 ? Object.freeze([...errors]) : EMPTY_ERRORS);
+      this.syncMetaToForm([fieldName]);
+    }
+
+    if (this.validatingFieldNames.has(fieldName) !== isValidating) {
+      const validating = new Set(this.validatingFieldNames);
+      if (isValidating) validating.add(fieldName);
+      else validating.delete(fieldName);
+      this.validatingFieldNames = validating;
+    }
+
+    this.storeVersion++;
+  }
+
+  private toErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
   }
 
   // ============================================================================
@@ -668,16 +2509,203 @@ export class XSelectStore {
     }
   }
 
-  private syncToForm(changes: FieldChange[]): void {
-    if (!this.formAdapter) return;
+  // ============================================================================
+  // PRIVATE - Events
+  // ============================================================================
 
-    if (this.formAdapter.onFieldsChange && changes.length > 1) {
-      this.formAdapter.onFieldsChange(changes);
-    } else {
-      for (const { name, value } of changes) {
-        this.formAdapter.onFieldChange(name, value);
+  private emit<TEvent extends StoreEventType>(
+    event: TEvent,
+    payload: StoreEventPayloadMap[TEvent],
+    fieldNames: string[],
+  ): void {
+    const listeners: AnyEventListener[] = [];
+
+    const global = this.eventListeners.get(event);
+    if (global) listeners.push(...global);
+
+    for (const name of new Set(fieldNames)) {
+      const scoped = this.fieldEventListeners.get(name)?.get(event);
+      if (scoped) listeners.push(...scoped);
+    }
+
+    for (const listener of listeners) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[XSelectStore] "${event}" listener threw:`, error);
+      }
+    }
+  }
+
+  /**
+   * Emit `value:change` for the source field and `cascade:delete` for its
+   * cleared descendants (if any).
+   */
+  private emitValueChange(
+    fieldName: string,
+    cascaded: FieldChange[],
+    previousValues: FieldValues,
+  ): void {
+    const affectedFields = cascaded.map((c) => c.name);
+
+    this.emit(
+      'value:change',
+      {
+        fieldName,
+        previousValue: previousValues[fieldName],
+        newValue: this.fieldValues[fieldName],
+        cascadedFields: affectedFields,
+      },
+      [fieldName],
+    );
+
+    this.emitCascade(fieldName, cascaded, previousValues);
+  }
+
+  private emitCascade(
+    fieldName: string,
+    cascaded: FieldChange[],
+    previousValues: FieldValues,
+  ): void {
+    if (cascaded.length === 0) return;
+
+    const affectedFields = cascaded.map((c) => c.name);
+    const deletedValues: Record<string, unknown> = {};
+    const policies: Record<string, CascadePolicyKind> = {};
+    for (const { name, policy } of cascaded) {
+      deletedValues[name] = previousValues[name];
+      policies[name] = policy ?? 'clear';
+    }
+
+    this.emit(
+      'cascade:delete',
+      { fieldName, affectedFields, deletedValues, policies },
+      [fieldName, ...affectedFields],
+    );
+  }
+
+  /**
+   * Connect the adapter's form → store sync. Fields the form has no value
+   * for get the store value (initial/default) instead - except when
+   * replacing an adapter, where the form is already in sync.
+   */
+  private connectAdapter(isReplacing = false): void {
+    this.disconnectAdapter = undefined;
+
+    const adapter = this.formAdapter;
+    if (!adapter?.getValue) return;
+
+    if (isReplacing) {
+      this.pullFormValues();
+      this.subscribeToForm(adapter);
+      return;
+    }
+
+    // Missing fields are restored with their own value so a changed form
+    // parent does not cascade-clear them
+    const values: FieldValues = {};
+    const missing: string[] = [];
+    for (const name of this.fieldOrder) {
+      const value = adapter.getValue(name);
+      if (value === undefined && !isEmpty(this.fieldValues[name])) {
+        missing.push(name);
+        values[name] = this.fieldValues[name];
+      } else {
+        values[name] = value;
+      }
+    }
+
+    this.restoreValues(values);
+    if (missing.length > 0) {
+      this.syncToForm(missing.map((name) => ({ name, value: this.fieldValues[name] })));
+    }
+
+    this.subscribeToForm(adapter);
+  }
+
+  private subscribeToForm(adapter: FormAdapter): void {
+    this.disconnectAdapter = adapter.subscribe?.((fieldNames) => {
+      if (!this.isWritingToForm) this.pullFormValues(fieldNames);
+    });
+  }
+
+  /**
+   * Run a store → form write. The form's change notifications it triggers
+   * are ignored: rows mid-move, for one, are not in the store yet.
+   */
+  private writeToForm(write: (adapter: FormAdapter) => void): void {
+    const adapter = this.formAdapter;
+    if (!adapter) return;
+
+    const wasWriting = this.isWritingToForm;
+    this.isWritingToForm = true;
+    try {
+      write(adapter);
+    } finally {
+      this.isWritingToForm = wasWriting;
+    }
+  }
+
+  /**
+   * Apply form values that differ from the store (parents first, children
+   * that were not changed in the form cascade and sync back).
+   */
+  private pullFormValues(fieldNames: Iterable<string> = this.fieldOrder): void {
+    const adapter = this.formAdapter;
+    if (this.isDestroyed || !adapter?.getValue) return;
+
+    const values: FieldValues = {};
+    let hasChanges = false;
+
+    for (const name of fieldNames) {
+      if (!this.fieldNameSet.has(name)) continue;
+
+      const value = adapter.getValue(name);
+      if (!areValuesEqual(value, this.fieldValues[name])) {
+        values[name] = value;
+        hasChanges = true;
       }
     }
+
+    if (hasChanges) this.restoreValues(values);
+  }
+
+  /**
+   * Queue touched / errors of fields for `onFieldsMeta` (one call per tick).
+   */
+  private syncMetaToForm(fieldNames: Iterable<string>): void {
+    if (!this.formAdapter?.onFieldsMeta) return;
+
+    for (const name of fieldNames) this.pendingMetaFields.add(name);
+    if (this.isMetaSyncScheduled) return;
+
+    this.isMetaSyncScheduled = true;
+    queueMicrotask(() => {
+      this.isMetaSyncScheduled = false;
+      const names = [...this.pendingMetaFields].filter((n) => this.fieldNameSet.has(n));
+      this.pendingMetaFields.clear();
+      if (this.isDestroyed || names.length === 0) return;
+
+      this.formAdapter?.onFieldsMeta?.(
+        names.map((name) => ({
+          name,
+          touched: this.touchedFieldNames.has(name),
+          errors: this.fieldErrors.get(name) ?? EMPTY_ERRORS,
+        })),
+      );
+    });
+  }
+
+  private syncToForm(changes: FieldChange[]): void {
+    this.writeToForm((adapter) => {
+      if (adapter.onFieldsChange && changes.length > 1) {
+        adapter.onFieldsChange(changes);
+      } else {
+        for (const { name, value } of changes) {
+          adapter.onFieldChange(name, value);
+        }
+      }
+    });
   }
 
   // ============================================================================
@@ -688,77 +2716,245 @@ export class XSelectStore {
     for (const config of this.fieldConfigs) {
       if (typeof config.options !== 'function') continue;
 
-      if (!config.dependsOn) {
-        this.loadAsyncOptions(config.name, null);
-      } else {
-        const parentNames = normalizeDependsOn(config.dependsOn);
+      const parent = this.getAsyncParentValue(config);
+      if (parent.ready) {
+        this.loadAsyncOptions(config.name, parent.value);
+      }
+    }
+  }
 
-        if (parentNames.length === 1) {
-          const parentValue = this.fieldValues[parentNames[0]];
-          if (parentValue !== null && parentValue !== undefined) {
-            this.loadAsyncOptions(config.name, parentValue);
-          }
-        } else {
-          const allHaveValue = parentNames.every((name) => {
-            const value = this.fieldValues[name];
-            return value !== null && value !== undefined;
-          });
+  /**
+   * Parent value passed to async `options(parentValue)`.
+   * Not ready while any parent is empty (root fields are always ready).
+   */
+  private getAsyncParentValue(
+    config: FieldConfig,
+    values: FieldValues = this.fieldValues,
+    includeEmpty = false,
+  ): { ready: boolean; value: unknown } {
+    if (!config.dependsOn) return { ready: true, value: null };
 
-          if (allHaveValue) {
-            const parentValues: Record<string, unknown> = {};
-            for (const name of parentNames) {
-              parentValues[name] = this.fieldValues[name];
-            }
-            this.loadAsyncOptions(config.name, parentValues);
-          }
-        }
+    const parentNames = normalizeDependsOn(config.dependsOn);
+    const allHaveValue = parentNames.every((name) => {
+      const value = values[name];
+      return value !== null && value !== undefined;
+    });
+
+    if (!allHaveValue && !includeEmpty) return { ready: false, value: undefined };
+
+    if (parentNames.length === 1) {
+      return { ready: allHaveValue, value: values[parentNames[0]] };
+    }
+
+    const parentValues: Record<string, unknown> = {};
+    for (const name of parentNames) {
+      parentValues[name] = values[name];
+    }
+    return { ready: allHaveValue, value: parentValues };
+  }
+
+  /**
+   * Reload async options of fields whose parents changed.
+   * Children whose parents became empty drop their options.
+   */
+  private reloadDependentOptions(changedFields: string[]): void {
+    const changed = new Set(changedFields);
+
+    for (const config of this.fieldConfigs) {
+      if (typeof config.options !== 'function' || !config.dependsOn) continue;
+
+      const parentNames = normalizeDependsOn(config.dependsOn);
+      if (!parentNames.some((name) => changed.has(name))) continue;
+
+      const parent = this.getAsyncParentValue(config);
+      if (parent.ready) {
+        this.loadAsyncOptions(config.name, parent.value);
+      } else {
+        this.cancelAsyncOptions(config.name);
       }
     }
   }
 
-  private async loadAsyncOptions(
+  /**
+   * Abort the in-flight load and hide the options of a field
+   * (cached entries are kept for when the parent value comes back).
+   */
+  private cancelAsyncOptions(fieldName: string): void {
+    const load = this.optionsLoads.get(fieldName);
+    const hadOptions = this.activeOptionsKeys.delete(fieldName);
+    this.pendingCascades.delete(fieldName);
+    const hadError = this.optionsErrors.delete(fieldName);
+
+    if (load) {
+      load.controller.abort();
+      this.optionsLoads.delete(fieldName);
+      this.setLoading(fieldName, false);
+      this.emit('loading:end', { fieldName, success: false }, [fieldName]);
+    } else if (hadOptions || hadError) {
+      this.storeVersion++;
+      this.scheduleNotifications([fieldName]);
+    }
+  }
+
+  private setLoading(fieldName: string, isLoading: boolean): void {
+    const loading = new Set(this.loadingFieldNames);
+    if (isLoading) loading.add(fieldName);
+    else loading.delete(fieldName);
+    this.loadingFieldNames = loading;
+
+    this.storeVersion++;
+    this.scheduleNotifications([fieldName]);
+  }
+
+  /**
+   * Reload options for the field's current parent value, bypassing TTL.
+   */
+  private reloadActiveOptions(fieldName: string): Promise<void> {
+    const config = this.configLookup.get(fieldName);
+    if (!config || typeof config.options !== 'function') return Promise.resolve();
+
+    const parent = this.getAsyncParentValue(config);
+    if (!parent.ready) return Promise.resolve();
+
+    return this.loadAsyncOptions(fieldName, parent.value, true);
+  }
+
+  private getOptionsCacheConfig(config: FieldConfig): { ttl: number; maxEntries: number } {
+    return {
+      ttl: config.cache?.ttl ?? this.optionsCacheDefaults.ttl ?? DEFAULT_OPTIONS_CACHE_TTL,
+      maxEntries:
+        config.cache?.maxEntries ??
+        this.optionsCacheDefaults.maxEntries ??
+        DEFAULT_OPTIONS_CACHE_SIZE,
+    };
+  }
+
+  /**
+   * Write loaded options as most recently used, evicting the oldest entries.
+   */
+  private writeCachedOptions(
+    config: FieldConfig,
+    key: string,
+    options: XSelectOption[],
+  ): void {
+    let entries = this.asyncOptionsCache.get(config.name);
+    if (!entries) {
+      entries = new Map();
+      this.asyncOptionsCache.set(config.name, entries);
+    }
+
+    entries.delete(key);
+    entries.set(key, { options, loadedAt: Date.now(), invalidated: false });
+
+    const { maxEntries } = this.getOptionsCacheConfig(config);
+    for (const oldestKey of entries.keys()) {
+      if (entries.size <= Math.max(maxEntries, 1)) break;
+      entries.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Load async options for a parent value.
+   * - Fresh cached options (TTL) are used without fetching unless forced
+   * - Same parent value already loading → joins the in-flight load, unless
+   *   forced: its data may predate the invalidation, so it is restarted
+   * - Different parent value → the in-flight load is aborted
+   * - Only the latest load commits to `asyncOptionsCache`
+   */
+  private loadAsyncOptions(
     fieldName: string,
     parentValue: unknown,
+    force = false,
   ): Promise<void> {
-    if (this.isDestroyed) return;
+    if (this.isDestroyed) return Promise.resolve();
 
     const config = this.configLookup.get(fieldName);
-    if (!config || typeof config.options !== 'function') return;
-
-    const cacheKey = `${fieldName}:${JSON.stringify(parentValue)}`;
+    if (!config || typeof config.options !== 'function') return Promise.resolve();
 
-    if (this.pendingRequests.has(cacheKey)) return;
+    const key = toOptionsKey(parentValue);
+    const current = this.optionsLoads.get(fieldName);
 
-    // Set loading
-    this.loadingFieldNames = new Set([...this.loadingFieldNames, fieldName]);
-    this.storeVersion++;
-    this.scheduleNotifications([fieldName]);
+    if (current?.key === key && !force) return current.promise;
+    current?.controller.abort();
+    this.optionsLoads.delete(fieldName);
 
-    const request = config.options(parentValue);
-    this.pendingRequests.set(cacheKey, request);
+    // Show cached options of this parent value (stale ones too, while refetching)
+    this.activeOptionsKeys.set(fieldName, key);
+    this.optionsErrors.delete(fieldName);
 
-    try {
-      const options = await request;
-      if (this.isDestroyed) return;
+    const entries = this.asyncOptionsCache.get(fieldName);
+    const cached = entries?.get(key);
 
-      this.asyncOptionsCache.set(fieldName, options);
-      this.storeVersion++;
-    } catch (error) {
-      if (this.isDestroyed) return;
+    if (cached && entries) {
+      // Touch LRU order
+      entries.delete(key);
+      entries.set(key, cached);
+    }
 
-      console.error(`[XSelectStore] Failed to load options for "${fieldName}":`, error);
-      this.asyncOptionsCache.set(fieldName, []);
-    } finally {
-      if (this.isDestroyed) return;
+    const { ttl } = this.getOptionsCacheConfig(config);
+    const isFresh =
+      !!cached && !cached.invalidated && Date.now() - cached.loadedAt < ttl;
 
-      this.pendingRequests.delete(cacheKey);
+    if (isFresh && !force) {
+      if (current) {
+        this.setLoading(fieldName, false);
+        this.emit('loading:end', { fieldName, success: true }, [fieldName]);
+      } else {
+        this.storeVersion++;
+        this.scheduleNotifications([fieldName]);
+      }
+      this.emit('options:change', { fieldName, options: cached!.options }, [fieldName]);
+      return Promise.resolve();
+    }
 
-      const newLoading = new Set(this.loadingFieldNames);
-      newLoading.delete(fieldName);
-      this.loadingFieldNames = newLoading;
+    const controller = new AbortController();
+    const loadOptions = config.options;
 
-      this.storeVersion++;
-      this.scheduleNotifications([fieldName]);
+    // Set loading (previous error is cleared while retrying)
+    this.setLoading(fieldName, true);
+    if (!current) {
+      this.emit('loading:start', { fieldName }, [fieldName]);
     }
+
+    const isLatest = () =>
+      !this.isDestroyed && this.optionsLoads.get(fieldName)?.controller === controller;
+
+    const run = async (): Promise<void> => {
+      let loaded: XSelectOption[] | undefined;
+
+      try {
+        // Let the load register first - a loader throwing synchronously
+        // would otherwise fail `isLatest()` and leave the field loading
+        await Promise.resolve();
+        const options = await loadOptions(parentValue, { signal: controller.signal });
+        if (!isLatest()) return;
+
+        this.writeCachedOptions(config, key, options);
+        loaded = options;
+        this.emit('options:change', { fieldName, options }, [fieldName]);
+      } catch (error) {
+        if (!isLatest()) return;
+
+        this.pendingCascades.delete(fieldName);
+        this.optionsErrors.set(
+          fieldName,
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+
+      this.optionsLoads.delete(fieldName);
+      this.setLoading(fieldName, false);
+      this.emit('loading:end', { fieldName, success: !!loaded }, [fieldName]);
+
+      if (loaded) {
+        this.applyPendingCascade(fieldName, key, loaded);
+        this.recomputeChildren(fieldName);
+      }
+    };
+
+    const promise = run();
+    this.optionsLoads.set(fieldName, { key, controller, promise });
+
+    return promise;
   }
 }
\ No newline at end of file
@@ -0,0 +1,141 @@
+/**
+ * XSelectStore - config validation, runtime registration, async options
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import type { FieldConfig, XSelectOption } from '../../types';
+import { XSelectConfigError } from '../../utils';
+import { XSelectStore } from '../XSelectStore';
+
+const country: FieldConfig = {
+  name: 'country',
+  options: [
+    { label: 'Vietnam', value: 'vn' },
+    { label: 'France', value: 'fr' },
+  ],
+};
+
+const city: FieldConfig = {
+  name: 'city',
+  dependsOn: 'country',
+  options: [
+    { label: 'Hanoi', value: 'hn', parentValue: 'vn' },
+    { label: 'Paris', value: 'pa', parentValue: 'fr' },
+  ],
+};
+
+describe('config validation', () => {
+  it('rejects a missing parent when the store is built', () => {
+    expect(() => new XSelectStore([city])).toThrow(XSelectConfigError);
+  });
+
+  it('accepts a pending parent with allowPendingParents and resolves it on registration', () => {
+    const store = new XSelectStore([city], { country: 'vn', city: 'hn' }, undefined, {
+      allowPendingParents: true,
+    });
+
+    store.registerField(country);
+
+    expect(store.getValues()).toMatchObject({ country: 'vn', city: 'hn' });
+    store.setValue('country', 'fr');
+    expect(store.getValues().city).toBeUndefined();
+    store.destroy();
+  });
+
+  it('lets registerField add a child before its parent', () => {
+    const store = new XSelectStore([]);
+
+    expect(() => store.registerField(city)).not.toThrow();
+    expect(() => store.registerField({ ...country, dependsOn: 'city' })).toThrow(
+      XSelectConfigError,
+    );
+    store.destroy();
+  });
+});
+
+describe('async options', () => {
+  /** Loader whose calls resolve by hand */
+  const createDeferredLoader = () => {
+    const calls: Array<{
+      signal: AbortSignal;
+      resolve: (options: XSelectOption[]) => void;
+    }> = [];
+    const loader = (_: unknown, { signal }: { signal: AbortSignal }) =>
+      new Promise<XSelectOption[]>((resolve) => {
+        calls.push({ signal, resolve });
+      });
+    return { calls, loader };
+  };
+
+  const tick = () =>
+    new Promise((resolve) => {
+      setTimeout(resolve, 0);
+    });
+
+  const tagOptions = (label: string): XSelectOption[] => [{ label, value: label }];
+
+  it('restarts an in-flight load when refreshed', async () => {
+    const { calls, loader } = createDeferredLoader();
+    const store = new XSelectStore([{ name: 'tag', options: loader }]);
+    await tick();
+    expect(calls).toHaveLength(1);
+
+    const refreshed = store.refreshOptions('tag');
+    await tick();
+
+    expect(calls).toHaveLength(2);
+    expect(calls[0].signal.aborted).toBe(true);
+
+    calls[0].resolve(tagOptions('before'));
+    calls[1].resolve(tagOptions('after'));
+    await refreshed;
+
+    expect(store.getOptions('tag')).toEqual(tagOptions('after'));
+    store.destroy();
+  });
+
+  it('invalidates a first load that is still in flight', async () => {
+    const { calls, loader } = createDeferredLoader();
+    const store = new XSelectStore([{ name: 'tag', options: loader }]);
+    await tick();
+
+    const invalidated = store.invalidateOptions('tag');
+    await tick();
+
+    expect(calls).toHaveLength(2);
+    calls[1].resolve(tagOptions('after'));
+    await invalidated;
+
+    expect(store.getOptions('tag')).toEqual(tagOptions('after'));
+    expect(store.getFieldSnapshot('tag').isLoading).toBe(false);
+    store.destroy();
+  });
+});
+
+describe('field arrays', () => {
+  const rowConfigs: FieldConfig[] = [
+    { name: 'items[].project', options: [{ label: 'Alpha', value: 1 }] },
+  ];
+
+  it('reports the removed last row as a value change', () => {
+    const store = new XSelectStore(rowConfigs, {
+      'items[0].project': 1,
+      'items[1].project': 2,
+    });
+    const changes: Array<[string, unknown]> = [];
+    store.on('value:change', ({ fieldName, newValue }) => {
+      changes.push([fieldName, newValue]);
+    });
+
+    store.removeRow('items', 0);
+
+    expect(changes).toEqual([
+      ['items[0].project', 2],
+      ['items[1].project', undefined],
+    ]);
+    expect(store.getValues()).toEqual({ 'items[0].project': 2 });
+    expect(store.getRowKeys('items')).toHaveLength(1);
+    store.destroy();
+  });
+});
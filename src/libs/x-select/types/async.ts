@@ -5,7 +5,7 @@
  * Provides type-safe state handling for loading, success, and error states.
  */
 
-import type { XSelectOption } from './core';
+import type { CascadePolicyKind, RowChange, XSelectOption } from './core';
 
 // ============================================================================
 // DISCRIMINATED UNIONS - Async State
@@ -111,7 +111,9 @@ export type StoreEventType =
   | 'loading:start'
   | 'loading:end'
   | 'cascade:delete'
-  | 'sync:controlled';
+  | 'sync:controlled'
+  | 'values:reset'
+  | 'rows:change';
 
 /**
  * Field-specific event type.
@@ -131,14 +133,44 @@ export type AllFieldEvents<TFieldNames extends string> = FieldEvent<
 
 /**
  * Event payload map.
+ *
+ * Every payload carries the `fieldName` it originated from so that
+ * store-wide listeners (`store.on`) can tell fields apart.
  */
 export interface StoreEventPayloadMap<TValue = unknown> {
-  'value:change': { previousValue: TValue; newValue: TValue };
-  'options:change': { options: XSelectOption[] };
+  'value:change': {
+    fieldName: string;
+    previousValue: TValue;
+    newValue: TValue;
+    /** Descendant fields cleared/filtered as a result of this change */
+    cascadedFields: string[];
+  };
+  'options:change': { fieldName: string; options: XSelectOption[] };
   'loading:start': { fieldName: string };
   'loading:end': { fieldName: string; success: boolean };
-  'cascade:delete': { affectedFields: string[]; deletedValues: Record<string, unknown> };
-  'sync:controlled': { values: Record<string, unknown> };
+  'cascade:delete': {
+    /** Field whose change triggered the cascade */
+    fieldName: string;
+    affectedFields: string[];
+    /** Values of affected fields BEFORE the cascade */
+    deletedValues: Record<string, unknown>;
+    /** Cascade policy applied to each affected field */
+    policies: Record<string, CascadePolicyKind>;
+  };
+  'sync:controlled': { changedFields: string[]; values: Record<string, unknown> };
+  'values:reset': {
+    /** `reset` restores initial/default values, `clear` empties every field */
+    mode: 'reset' | 'clear';
+    /** Fields that were reset (cascaded children included) */
+    fieldNames: string[];
+    values: Record<string, unknown>;
+  };
+  'rows:change': RowChange & {
+    /** Field array name (same as `arrayName`) */
+    fieldName: string;
+    /** Stable row keys after the change (use as React keys) */
+    rowKeys: readonly number[];
+  };
 }
 
 /**
@@ -146,4 +178,4 @@ export interface StoreEventPayloadMap<TValue = unknown> {
  */
 export type StoreEventListener<TEvent extends StoreEventType> = (
   payload: StoreEventPayloadMap[TEvent],
-) => void;
\ No newline at end of file
+) => void;
@@ -10,6 +10,8 @@
  * - Adapter syncs changes from Store → Form
  */
 
+import type { QueryClient } from '@tanstack/react-query';
+
 // ============================================================================
 // OPTION TYPES
 // ============================================================================
@@ -51,6 +53,143 @@ export interface FormattedOption {
 // FIELD CONFIGURATION
 // ============================================================================
 
+/**
+ * Context passed to async `options` loaders.
+ */
+export interface OptionsLoadContext {
+  /** Aborted when the load is superseded or the store is destroyed */
+  signal: AbortSignal;
+}
+
+/**
+ * Async options loader.
+ *
+ * @example
+ * ```ts
+ * options: (countryId, { signal }) =>
+ *   fetch(`/api/cities?country=${countryId}`, { signal }).then((r) => r.json())
+ * ```
+ */
+export type AsyncOptionsLoader = (
+  parentValue: unknown,
+  context: OptionsLoadContext,
+) => Promise<XSelectOption[]>;
+
+/**
+ * Cache for async `options`, keyed by parent value.
+ */
+export interface OptionsCacheConfig {
+  /**
+   * How long (ms) loaded options stay fresh (default: 0).
+   * Fresh options are reused without refetching; stale ones are shown
+   * while the refetch runs.
+   */
+  ttl?: number;
+
+  /** Max parent values cached per field, least recently used evicted first (default: 20) */
+  maxEntries?: number;
+
+  /**
+   * React Query key of the field's infinite select (`InfiniteConfig.queryKey`).
+   * Invalidated together with the store cache when a `queryClient` is set.
+   */
+  queryKey?: string;
+}
+
+/**
+ * Default value computed from the parent value.
+ * Async results are applied only while the field is still empty and the
+ * parent value is unchanged.
+ *
+ * @example
+ * ```ts
+ * defaultValue: async (countryId) => (await fetchCapital(countryId)).id
+ * ```
+ */
+export type DefaultValueResolver = (parentValue: unknown) => unknown;
+
+/**
+ * Computes a derived field value.
+ *
+ * @param parentValues - Value of each parent field
+ * @param parentOptions - Selected option(s) of each parent field (empty
+ *   while the parent's options are not loaded)
+ *
+ * @example
+ * ```ts
+ * // default assignee = owner of the selected project
+ * compute: (_, { projectId }) => projectId[0]?.ownerId
+ * ```
+ */
+export type ComputeValue = (
+  parentValues: Record<string, unknown>,
+  parentOptions: Record<string, XSelectOption[]>,
+) => unknown;
+
+/**
+ * Predicate over all field values (`visibleWhen` / `disabledWhen`).
+ *
+ * @example
+ * ```ts
+ * visibleWhen: (values) => values.projectStatus === 'ACTIVE'
+ * ```
+ */
+export type FieldRule = (values: FieldValues) => boolean;
+
+/**
+ * Built-in cascade policies.
+ * - 'clear': drop values no longer linked to the parent (options without
+ *   `parentValue` are always cleared)
+ * - 'keep-if-valid': keep values that exist in the new parent's options
+ *   (async options are checked once loaded)
+ * - 'reset-to-default': go back to `defaultValue`
+ * - 'auto-select-single': select the only available option, otherwise keep
+ *   still-valid values
+ */
+export type CascadePolicyName =
+  | 'clear'
+  | 'keep-if-valid'
+  | 'reset-to-default'
+  | 'auto-select-single';
+
+/**
+ * Context passed to a custom cascade resolver.
+ */
+export interface CascadeResolverContext {
+  fieldName: string;
+
+  /** Current value of the field */
+  value: unknown;
+
+  /** New parent value (object when dependsOn is array) */
+  parentValue: unknown;
+
+  /** Parent value before the change */
+  previousParentValue: unknown;
+
+  /**
+   * Options available for the new parent value.
+   * Undefined while async options for it are not loaded yet.
+   */
+  options: XSelectOption[] | undefined;
+
+  /** `FieldConfig.defaultValue` as configured (may be a resolver) */
+  defaultValue: unknown;
+}
+
+/**
+ * Custom cascade resolver - returns the field's new value.
+ */
+export type CascadeResolver = (context: CascadeResolverContext) => unknown;
+
+export type CascadePolicy = CascadePolicyName | CascadeResolver;
+
+/**
+ * Policy reported in cascade events ('custom' for resolver functions,
+ * 'compute' for computed fields).
+ */
+export type CascadePolicyKind = CascadePolicyName | 'custom' | 'compute';
+
 /**
  * Configuration for a cascading select field.
  */
@@ -77,18 +216,112 @@ export interface FieldConfig {
   /**
    * Options source:
    * - Static array
-   * - Async function
+   * - Async function (re-run when the parent value changes; `signal` aborts
+   *   when a newer parent value supersedes the load)
    * - undefined: options passed via component props
    */
-  options?: XSelectOption[] | ((parentValue: unknown) => Promise<XSelectOption[]>);
+  options?: XSelectOption[] | AsyncOptionsLoader;
+
+  /** Async options cache (per field override of store defaults) */
+  cache?: OptionsCacheConfig;
 
   /** Custom filter function for options */
   filterOptions?: (options: XSelectOption[], parentValue: unknown) => XSelectOption[];
 
+  /** Validation rules (run by the store on change and on cascade) */
+  validation?: FieldValidationRules;
+
+  /**
+   * Default value - applied when the field has no initial value, on
+   * `store.reset()` and by `onParentChange: 'reset-to-default'`.
+   * May be a `DefaultValueResolver` (sync or async, parent-dependent).
+   */
+  defaultValue?: unknown;
+
+  /**
+   * What happens to the value when a parent value changes (default: 'clear').
+   * See `CascadePolicy`.
+   */
+  onParentChange?: CascadePolicy;
+
+  /**
+   * Derive the value from the parent selections (replaces `onParentChange`).
+   * Runs in the store whenever a parent value changes, and when async
+   * parent options land.
+   */
+  compute?: ComputeValue;
+
+  /**
+   * - 'readonly': only `compute` sets the value (default)
+   * - 'overridable': the user may change it until a parent changes again
+   */
+  computeMode?: 'readonly' | 'overridable';
+
+  /** Show the field only while this returns true (evaluated on every value change) */
+  visibleWhen?: FieldRule;
+
+  /** Disable the field while this returns true */
+  disabledWhen?: FieldRule;
+
+  /** Clear the value when the field gets hidden (default: false) */
+  clearWhenHidden?: boolean;
+
   /** Additional props for select component (UI-specific) */
   selectProps?: Record<string, unknown>;
 }
 
+/**
+ * Custom validator.
+ * Return an error message (or several) when invalid, nothing when valid.
+ * May be async.
+ */
+export type FieldValidator = (
+  value: unknown,
+  values: FieldValues,
+) =>
+  | string
+  | string[]
+  | undefined
+  | void
+  | Promise<string | string[] | undefined | void>;
+
+/**
+ * Declarative validation rules for a field.
+ *
+ * @example
+ * ```ts
+ * {
+ *   name: 'taskIds',
+ *   mode: 'multiple',
+ *   validation: {
+ *     required: 'Pick at least one task',
+ *     max: 5,
+ *     validator: async (value) =>
+ *       (await isLocked(value)) ? 'Some tasks are locked' : undefined,
+ *   },
+ * }
+ * ```
+ */
+export interface FieldValidationRules {
+  /** Field must have a value. String = custom message */
+  required?: boolean | string;
+
+  /** Minimum selections (mode: 'multiple' | 'tags') */
+  min?: number;
+
+  /** Maximum selections (mode: 'multiple' | 'tags') */
+  max?: number;
+
+  /** Custom messages for min/max */
+  messages?: {
+    min?: string;
+    max?: string;
+  };
+
+  /** Custom (sync or async) validator - runs only when built-in rules pass */
+  validator?: FieldValidator;
+}
+
 /**
  * Map of field values.
  */
@@ -107,6 +340,55 @@ export interface FormAdapter {
 
   /** Called when multiple fields change (e.g., cascade delete) */
   onFieldsChange?: (fields: Array<{ name: string; value: unknown }>) => void;
+
+  /**
+   * Called when a field array row is added, removed or moved - before the
+   * shifted row values are synced. Map to antd `Form.List` operations or
+   * react-hook-form `useFieldArray` (`append` / `remove` / `move`).
+   */
+  onRowChange?: (change: RowChange) => void;
+
+  /**
+   * Read a field value from the form (form → store sync).
+   * Fields the form has no value for are pushed from the store on connect.
+   */
+  getValue?: (fieldName: string) => unknown;
+
+  /**
+   * Listen to form value changes made outside the store
+   * (`setFieldsValue`, `reset`, ...). Pass changed field names when known.
+   * Returns an unsubscribe function.
+   */
+  subscribe?: (listener: (fieldNames?: string[]) => void) => () => void;
+
+  /** Called (batched per tick) when touched / validation state changes */
+  onFieldsMeta?: (fields: FieldMeta[]) => void;
+}
+
+/**
+ * Touched / validation state passed to `FormAdapter.onFieldsMeta`.
+ */
+export interface FieldMeta {
+  name: string;
+  touched: boolean;
+  errors: readonly string[];
+}
+
+/**
+ * Field array row operation.
+ */
+export interface RowChange {
+  /** Field array name (`items` for `items[].project`) */
+  arrayName: string;
+
+  /** Operation */
+  type: 'add' | 'remove' | 'move';
+
+  /** Added/removed row, or source row when moving */
+  index: number;
+
+  /** Target row (move only) */
+  toIndex?: number;
 }
 
 // ============================================================================
@@ -132,6 +414,27 @@ export interface FieldSnapshot {
 
   /** Loading state */
   isLoading: boolean;
+
+  /** Async options load error (cleared on retry / successful reload) */
+  optionsError: Error | null;
+
+  /** Hidden by `visibleWhen` */
+  isHidden: boolean;
+
+  /** Disabled by `disabledWhen` */
+  isDisabledByRule: boolean;
+
+  /** Validation errors (empty when valid) */
+  errors: readonly string[];
+
+  /** Async validator in progress */
+  isValidating: boolean;
+
+  /** Value was set through the store (not by cascade/sync) or validate() ran */
+  touched: boolean;
+
+  /** Value differs from the initial value */
+  dirty: boolean;
 }
 
 /**
@@ -150,11 +453,77 @@ export interface FieldRelationship {
  */
 export type RelationshipMap = Map<string, FieldRelationship>;
 
+/**
+ * Kind of problem found in a field config's dependency graph.
+ * - DUPLICATE_FIELD: two configs share the same name
+ * - SELF_REFERENCE: field lists itself in dependsOn
+ * - MISSING_PARENT: dependsOn names a field that has no config
+ * - CYCLE: fields depend on each other (a → b → a)
+ * - INVALID_ROW_DEPENDENCY: a row field (`items[].x`) is depended on from
+ *   outside its field array
+ */
+export type FieldConfigIssueCode =
+  | 'DUPLICATE_FIELD'
+  | 'SELF_REFERENCE'
+  | 'MISSING_PARENT'
+  | 'CYCLE'
+  | 'INVALID_ROW_DEPENDENCY';
+
+/**
+ * Structured config validation error.
+ */
+export interface FieldConfigIssue {
+  /** Issue kind */
+  code: FieldConfigIssueCode;
+
+  /** Offending field name(s) */
+  fields: string[];
+
+  /** Dependency path (CYCLE only), first and last entries are equal */
+  path?: string[];
+
+  /** Human-readable description */
+  message: string;
+}
+
 /**
  * Store subscriber callback.
  */
 export type StoreListener = () => void;
 
+/**
+ * Undo/redo availability snapshot.
+ */
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Optional store behaviour.
+ */
+export interface XSelectStoreOptions {
+  /**
+   * Max undo steps kept (default: 50).
+   * Each setValue/setValues call - including its cascade - is one step.
+   * Set 0 to disable history.
+   */
+  historyLimit?: number;
+
+  /** Default async options cache settings (overridden by `FieldConfig.cache`) */
+  optionsCache?: Omit<OptionsCacheConfig, 'queryKey'>;
+
+  /** React Query client - `invalidateOptions` also invalidates the field's `cache.queryKey` */
+  queryClient?: QueryClient;
+
+  /**
+   * Accept configs whose `dependsOn` parent is not configured yet - it is
+   * expected from `registerField` / `XSelect.Field` (default: false, a missing
+   * parent throws XSelectConfigError).
+   */
+  allowPendingParents?: boolean;
+}
+
 // ============================================================================
 // GENERIC TYPES
 // ============================================================================
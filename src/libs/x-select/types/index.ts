@@ -9,12 +9,31 @@ export type {
   XSelectOption,
   FormattedOption,
   FieldConfig,
+  FieldValidationRules,
+  FieldValidator,
+  OptionsLoadContext,
+  AsyncOptionsLoader,
+  OptionsCacheConfig,
+  CascadePolicy,
+  CascadePolicyName,
+  CascadePolicyKind,
+  CascadeResolver,
+  CascadeResolverContext,
+  DefaultValueResolver,
+  ComputeValue,
+  FieldRule,
   FieldValues,
   FormAdapter,
+  RowChange,
+  FieldMeta,
   FieldSnapshot,
   FieldRelationship,
   RelationshipMap,
+  FieldConfigIssue,
+  FieldConfigIssueCode,
   StoreListener,
+  HistoryState,
+  XSelectStoreOptions,
   TypedOption,
   TypedOptionWithParent,
   SelectValue,
@@ -37,13 +56,36 @@ export type {
 
 export { AsyncStateHelpers } from './async';
 
+// Persistence types
+export type {
+  PersistedSelection,
+  PersistenceDriver,
+  PersistenceOptions,
+} from './persistence';
+
+// Search types
+export type {
+  MatchRange,
+  SearchMatch,
+  SearchEngine,
+  SearchKey,
+  SearchMatcherOptions,
+  SearchMatcher,
+  OptionsQuery,
+  OptionsSearchWorkerOptions,
+  OptionsSearchWorker,
+} from './search';
+
 // Infinite select types
 export type {
   BaseItem,
+  AllMatchingValue,
   InfiniteOption,
   FetchRequest,
   FetchResponse,
   InfiniteConfig,
+  HydrationRequest,
+  HydrationScheduler,
   UseInfiniteSelectResult,
   DependentInjectedProps,
   InfiniteInjectedProps,
@@ -19,6 +19,23 @@ export interface BaseItem {
   [key: string]: unknown;
 }
 
+/**
+ * Symbolic "select all matching" value of a multi-mode infinite select:
+ * every item matching `search` under `parentValue`, except `excluded`.
+ */
+export interface AllMatchingValue {
+  allMatching: true;
+
+  /** Search keyword at selection time */
+  search?: string;
+
+  /** Parent value at selection time (narrowed by cascade deletes) */
+  parentValue?: unknown;
+
+  /** Ids deselected after selecting all */
+  excluded: Array<string | number>;
+}
+
 /**
  * Option with full item data.
  */
@@ -39,9 +56,12 @@ export interface InfiniteOption<T extends BaseItem = BaseItem> {
  * Request params for fetch function.
  */
 export interface FetchRequest {
-  /** Current page (starts from 1) */
+  /** Current page (starts from 1) - page counter in cursor mode */
   current: number;
 
+  /** Cursor of the page to fetch (cursor mode, undefined for the first page) */
+  cursor?: string;
+
   /** Items per page */
   pageSize: number;
 
@@ -53,6 +73,9 @@ export interface FetchRequest {
 
   /** Specific IDs to fetch (for hydration) */
   ids?: Array<string | number>;
+
+  /** Aborted when the query is cancelled (parent / search changed, unmount) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -62,6 +85,9 @@ export interface FetchResponse<T> {
   data: T[];
   total?: number;
   hasMore?: boolean;
+
+  /** Cursor of the next page (cursor mode) - null / undefined on the last page */
+  nextCursor?: string | null;
 }
 
 // ============================================================================
@@ -82,11 +108,30 @@ export interface InfiniteConfig<T extends BaseItem = BaseItem> {
   fetchByIds?: (
     ids: Array<string | number>,
     parentValue?: unknown,
+    signal?: AbortSignal,
   ) => Promise<T[]>;
 
   /** Items per page (default: 20) */
   pageSize?: number;
 
+  /**
+   * Pagination mode:
+   * - 'offset': pages requested by number (`current`) (default)
+   * - 'cursor': pages requested by the previous page's `nextCursor`
+   *   (`pageInfo.endCursor` of the v2 options APIs) - no skipped or
+   *   duplicated rows when data changes between pages
+   *
+   * @example
+   * ```ts
+   * paginationMode: 'cursor',
+   * fetchList: async ({ cursor, pageSize }) => {
+   *   const { data, pageInfo } = await getUserOptions({ cursor, limit: pageSize });
+   *   return { data, nextCursor: pageInfo.hasNextPage ? pageInfo.endCursor : null };
+   * },
+   * ```
+   */
+  paginationMode?: 'offset' | 'cursor';
+
   /**
    * Fetch strategy:
    * - 'eager': fetch on mount
@@ -97,6 +142,35 @@ export interface InfiniteConfig<T extends BaseItem = BaseItem> {
   /** Stale time for React Query (ms) */
   staleTime?: number;
 
+  /**
+   * Entity key for batched hydration. Selects sharing a key hydrate their
+   * selected values through one `fetchByIds` call per tick (no parentValue),
+   * and each item is cached under `getHydrationQueryKey(key, id)`.
+   *
+   * Unset: each select calls `fetchByIds` on its own.
+   */
+  hydrationKey?: string;
+
+  /**
+   * Remove selected values that hydration did not return (deleted rows).
+   * The change goes through `onChange`, so the store and form adapter see it.
+   * Default: false - the values stay, listed in `missingValues`.
+   */
+  autoRemoveMissing?: boolean;
+
+  /** Called when hydration finds selected values that no longer exist */
+  onMissingValues?: (values: Array<string | number>) => void;
+
+  /**
+   * "Select all matching" result (multi mode):
+   * - 'symbolic': an `AllMatchingValue` the form submits as is (default)
+   * - 'expand': explicit ids, fetched in pages of `selectAllBatchSize`
+   */
+  selectAllMode?: 'symbolic' | 'expand';
+
+  /** Page size when expanding "select all matching" (default: 100) */
+  selectAllBatchSize?: number;
+
   /** Get ID from item (default: item.id) */
   getItemId?: (item: T) => string | number;
 
@@ -114,6 +188,42 @@ export interface InfiniteConfig<T extends BaseItem = BaseItem> {
   getItemParentValue?: (item: T) => unknown;
 }
 
+// ============================================================================
+// HYDRATION TYPES
+// ============================================================================
+
+/**
+ * One caller's ids for the hydration scheduler.
+ */
+export interface HydrationRequest<T extends BaseItem = BaseItem> {
+  /** Entity key - requests with the same key are batched */
+  key: string;
+
+  /** Ids to hydrate */
+  ids: Array<string | number>;
+
+  /** Batch fetcher - the first caller's fetcher serves the whole batch */
+  fetchByIds: (ids: Array<string | number>, signal: AbortSignal) => Promise<T[]>;
+
+  /** Get ID from item (default: item.id) */
+  getItemId?: (item: T) => string | number;
+
+  /** Caller's abort signal - the batch is aborted once all its callers are */
+  signal?: AbortSignal;
+}
+
+/**
+ * DataLoader-style hydration: ids requested within one tick are fetched
+ * with one request per entity key.
+ */
+export interface HydrationScheduler {
+  /** Resolve items for ids (cached, in-flight or batched) - unknown ids are omitted */
+  load: <T extends BaseItem>(request: HydrationRequest<T>) => Promise<T[]>;
+
+  /** Drop queued and in-flight batches (their callers reject) */
+  clear: () => void;
+}
+
 // ============================================================================
 // HOOK RESULT TYPE
 // ============================================================================
@@ -161,6 +271,27 @@ export interface UseInfiniteSelectResult<T extends BaseItem = BaseItem> {
   /** Whether currently retrying */
   isRetrying: boolean;
 
+  /** Selected values hydration did not return (deleted / no longer available) */
+  missingValues: Array<string | number>;
+
+  /** Remove `missingValues` from the value */
+  removeMissingValues: () => void;
+
+  /** Server total for the current search / parent (`FetchResponse.total`) */
+  total: number | undefined;
+
+  /** Symbolic "all matching" value, if selected */
+  allMatching: AllMatchingValue | null;
+
+  /** Items covered by `allMatching` (total minus excluded, when known) */
+  allMatchingCount: number | undefined;
+
+  /** Expanding "select all matching" to explicit ids */
+  isSelectingAll: boolean;
+
+  /** Select every item matching the current search / parent */
+  selectAllMatching: () => void;
+
   /** Value change handler */
   onChange: (value: string | number | Array<string | number> | undefined | null) => void;
 
@@ -211,6 +342,12 @@ export interface DependentInjectedProps {
 
   /** Loading state */
   loading?: boolean;
+
+  /** Async options load error (render props only) */
+  error?: Error | null;
+
+  /** Reload async options (render props only) */
+  onRetry?: () => void;
 }
 
 /**
@@ -262,6 +399,27 @@ export interface InfiniteInjectedProps<T extends BaseItem = BaseItem> {
   /** Whether currently retrying */
   isRetrying: boolean;
 
+  /** Selected values that no longer exist - render as "unavailable" */
+  missingValues: Array<string | number>;
+
+  /** Remove `missingValues` from the value */
+  removeMissingValues: () => void;
+
+  /** Server total for the current search / parent */
+  total: number | undefined;
+
+  /** Symbolic "all matching" value, if selected */
+  allMatching: AllMatchingValue | null;
+
+  /** Items covered by `allMatching` */
+  allMatchingCount: number | undefined;
+
+  /** Expanding "select all matching" to explicit ids */
+  isSelectingAll: boolean;
+
+  /** Select every item matching the current search / parent */
+  selectAllMatching: () => void;
+
   /** Open/close handler */
   onOpenChange: (open: boolean) => void;
 
@@ -0,0 +1,102 @@
+/**
+ * XSelect - Persistence Types
+ *
+ * Storage driver contract and options for remembering selections
+ * across sessions (localStorage, IndexedDB, server).
+ */
+
+import type { FieldValues, XSelectOption } from './core';
+
+// ============================================================================
+// STORED SHAPE
+// ============================================================================
+
+/**
+ * Envelope written by the persistence layer.
+ */
+export interface PersistedSelection {
+  /** Schema version of `values` */
+  version: number;
+
+  /** Persisted field values */
+  values: FieldValues;
+
+  /** Write timestamp (ms) */
+  savedAt: number;
+}
+
+// ============================================================================
+// DRIVER
+// ============================================================================
+
+/**
+ * Storage driver - sync or async.
+ *
+ * @example
+ * ```ts
+ * const memoryDriver: PersistenceDriver = {
+ *   load: (key) => memory.get(key) ?? null,
+ *   save: (key, data) => void memory.set(key, data),
+ *   remove: (key) => void memory.delete(key),
+ * };
+ * ```
+ */
+export interface PersistenceDriver {
+  /** Load persisted data (null when nothing saved) */
+  load: (key: string) => Promise<PersistedSelection | null> | PersistedSelection | null;
+
+  /** Save data */
+  save: (key: string, data: PersistedSelection) => Promise<void> | void;
+
+  /** Remove data */
+  remove?: (key: string) => Promise<void> | void;
+}
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+/**
+ * Options for `XSelectProvider` `persistence` prop.
+ */
+export interface PersistenceOptions {
+  /** Storage key (e.g. page id) */
+  key: string;
+
+  /** Storage driver */
+  driver: PersistenceDriver;
+
+  /** Current schema version (default: 1) */
+  version?: number;
+
+  /**
+   * Upgrade values saved with an older version.
+   * Return null to discard them.
+   */
+  migrate?: (
+    values: FieldValues,
+    fromVersion: number,
+  ) => FieldValues | null | Promise<FieldValues | null>;
+
+  /** Fields to persist (default: all configured fields) */
+  fields?: string[];
+
+  /** Debounce for writes (ms, default: 500) */
+  debounceMs?: number;
+
+  /**
+   * Resolve options to verify restored values still exist.
+   * Used for fields whose options are not in the config (e.g. infinite selects).
+   * Return undefined to keep the value unchecked.
+   * `signal` aborts when the provider unmounts before the restore finishes.
+   */
+  resolveOptions?: (
+    fieldName: string,
+    parentValue: unknown,
+    values: unknown[],
+    context: { signal: AbortSignal },
+  ) => Promise<XSelectOption[] | undefined> | XSelectOption[] | undefined;
+
+  /** Called after restore with values that were dropped */
+  onRestore?: (restored: FieldValues, dropped: Record<string, unknown[]>) => void;
+}
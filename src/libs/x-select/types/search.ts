@@ -0,0 +1,149 @@
+/**
+ * XSelect - Search Types
+ *
+ * Pluggable client-side search over options (static selects, filterOption).
+ */
+
+import type { XSelectOption } from './core';
+
+// ============================================================================
+// MATCHES
+// ============================================================================
+
+/**
+ * Matched character range in the ORIGINAL text (end exclusive).
+ */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * One ranked search result.
+ */
+export interface SearchMatch<T extends XSelectOption = XSelectOption> {
+  option: T;
+
+  /** Relevance (higher is better) */
+  score: number;
+
+  /** Highlight ranges per searched key (e.g. `ranges.label`) */
+  ranges: Record<string, MatchRange[]>;
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+/**
+ * Search engine contract - returns matching options, best first.
+ *
+ * @example
+ * ```ts
+ * const prefixEngine: SearchEngine = {
+ *   search: (options, query) =>
+ *     options
+ *       .filter((option) => option.label.startsWith(query))
+ *       .map((option) => ({
+ *         option,
+ *         score: 1,
+ *         ranges: { label: [{ start: 0, end: query.length }] },
+ *       })),
+ * };
+ * ```
+ */
+export interface SearchEngine<T extends XSelectOption = XSelectOption> {
+  search: (options: readonly T[], query: string) => SearchMatch<T>[];
+}
+
+/**
+ * Searched text of an option - a property path (`'meta.code'`) or a getter.
+ */
+export type SearchKey<T extends XSelectOption = XSelectOption> =
+  | string
+  | {
+      /** Key name used in `SearchMatch.ranges` (property path when no getter) */
+      name: string;
+
+      /** Text getter (default: read `name` as a property path) */
+      get?: (option: T) => unknown;
+
+      /** Score multiplier (default: 1) */
+      weight?: number;
+    };
+
+export interface SearchMatcherOptions<T extends XSelectOption = XSelectOption> {
+  /** Searched keys (default: ['label']) */
+  keys?: SearchKey<T>[];
+
+  /** Typo-tolerant and subsequence matching (default: true) */
+  fuzzy?: boolean;
+
+  /** Minimum score of a result, 0-1 (default: 0) */
+  threshold?: number;
+
+  /** Maximum number of results */
+  limit?: number;
+}
+
+/**
+ * Search engine with single-option helpers (see `createSearchMatcher`).
+ */
+export interface SearchMatcher<T extends XSelectOption = XSelectOption>
+  extends SearchEngine<T> {
+  /** Match one option - null when it does not match */
+  match: (option: T, query: string) => SearchMatch<T> | null;
+
+  /** Boolean test (fits `filterOption` props) */
+  test: (option: T, query: string) => boolean;
+
+  /** Matching options, best first (fits `filterOptions` configs) */
+  filter: (options: readonly T[], query: string) => T[];
+}
+
+// ============================================================================
+// OPTIONS WORKER
+// ============================================================================
+
+/**
+ * Parent filtering + search request of an options worker.
+ */
+export interface OptionsQuery {
+  /** Filter by `parentValue` (false = all options) */
+  filterByParent: boolean;
+  parentValue?: unknown;
+
+  /** Keep options without `parentValue` when filtering */
+  keepUnconstrained?: boolean;
+
+  /** Search query ('' = parent filtering only, original order) */
+  query: string;
+
+  /** Maximum number of results */
+  limit?: number;
+}
+
+export interface OptionsSearchWorkerOptions<T extends XSelectOption = XSelectOption> {
+  /** Searched keys (default: ['label']) - getters run on the main thread */
+  keys?: SearchKey<T>[];
+
+  /** Typo-tolerant and subsequence matching (default: true) */
+  fuzzy?: boolean;
+
+  /** Worker factory (default: bundled options worker) */
+  createWorker?: () => Worker;
+}
+
+/**
+ * Off-main-thread options index (see `createOptionsSearchWorker`).
+ */
+export interface OptionsSearchWorker<T extends XSelectOption = XSelectOption> {
+  /** Send options to the worker and (re)build its parent index */
+  load: (options: readonly T[]) => void;
+
+  /** Matching options of the loaded set, best first */
+  query: (request: OptionsQuery) => Promise<SearchMatch<T>[]>;
+
+  /** Stop the worker (pending queries reject) */
+  terminate: () => void;
+}
@@ -0,0 +1,75 @@
+/**
+ * validateFieldConfigs - structured config issues
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import type { FieldConfig } from '../../types';
+import { validateFieldConfigs } from '../index';
+
+const field = (name: string, dependsOn?: FieldConfig['dependsOn']): FieldConfig => ({
+  name,
+  dependsOn,
+  options: [],
+});
+
+describe('validateFieldConfigs', () => {
+  it('accepts a valid dependency tree', () => {
+    expect(
+      validateFieldConfigs([
+        field('country'),
+        field('city', 'country'),
+        field('district', ['country', 'city']),
+        field('items[].project'),
+        field('items[].task', 'items[].project'),
+      ]),
+    ).toEqual([]);
+  });
+
+  it('reports duplicate fields', () => {
+    expect(validateFieldConfigs([field('country'), field('country')])).toEqual([
+      expect.objectContaining({ code: 'DUPLICATE_FIELD', fields: ['country'] }),
+    ]);
+  });
+
+  it('reports self-references without also reporting them as cycles', () => {
+    expect(validateFieldConfigs([field('city', 'city')])).toEqual([
+      expect.objectContaining({ code: 'SELF_REFERENCE', fields: ['city'] }),
+    ]);
+  });
+
+  it('reports missing parents', () => {
+    expect(validateFieldConfigs([field('city', 'country')])).toEqual([
+      expect.objectContaining({ code: 'MISSING_PARENT', fields: ['city', 'country'] }),
+    ]);
+  });
+
+  it('reports dependencies on fields of another field array', () => {
+    expect(
+      validateFieldConfigs([field('items[].project'), field('owner', 'items[].project')]),
+    ).toEqual([
+      expect.objectContaining({
+        code: 'INVALID_ROW_DEPENDENCY',
+        fields: ['owner', 'items[].project'],
+      }),
+    ]);
+  });
+
+  it('reports each cycle once with its dependency path', () => {
+    const issues = validateFieldConfigs([
+      field('a', 'c'),
+      field('b', 'a'),
+      field('c', 'b'),
+      field('d', 'a'),
+    ]);
+
+    expect(issues).toEqual([
+      {
+        code: 'CYCLE',
+        fields: ['b', 'c', 'a'],
+        path: ['b', 'c', 'a', 'b'],
+        message: 'Circular dependency: b → c → a → b',
+      },
+    ]);
+  });
+});
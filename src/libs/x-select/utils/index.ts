@@ -2,18 +2,23 @@
  * XSelect - Utility Functions
  *
  * Pure functions for:
+ * - Validating field configs (dependency graph)
  * - Building relationship maps
  * - Filtering options by parent value
  * - Cascade delete logic
+ * - Built-in validation rules
  * - Value comparison
+ * - Field array (row) names
  *
  * All functions are framework-agnostic and can be tested independently.
  */
 
 import type {
   FieldConfig,
+  FieldConfigIssue,
   FieldRelationship,
   RelationshipMap,
+  RowChange,
   XSelectOption,
   FormattedOption,
 } from '../types';
@@ -90,14 +95,219 @@ export function normalizeDependsOn(dependsOn: string | string[] | undefined): st
   return Array.isArray(dependsOn) ? dependsOn : [dependsOn];
 }
 
+// ============================================================================
+// FIELD ARRAYS
+// ============================================================================
+
+/**
+ * Field array name of a row template (`items[].project` → `items`).
+ * Returns null for plain fields.
+ */
+export function getFieldArrayName(templateName: string): string | null {
+  const markerIndex = templateName.indexOf('[].');
+  return markerIndex > 0 ? templateName.slice(0, markerIndex) : null;
+}
+
+/**
+ * Concrete field name of a row template.
+ *
+ * @example
+ * ```ts
+ * toRowFieldName('items[].project', 2); // 'items[2].project'
+ * toRowFieldName('company', 2);         // 'company'
+ * ```
+ */
+export function toRowFieldName(templateName: string, index: number): string {
+  const arrayName = getFieldArrayName(templateName);
+  if (!arrayName) return templateName;
+  return `${arrayName}[${index}]${templateName.slice(arrayName.length + 2)}`;
+}
+
+/**
+ * Split a concrete row field name (`items[2].project`).
+ * Returns null for plain fields.
+ */
+export function parseRowFieldName(
+  fieldName: string,
+): { arrayName: string; index: number; field: string } | null {
+  const match = /^([^[\]]+)\[(\d+)\]\.(.+)$/.exec(fieldName);
+  if (!match) return null;
+  return { arrayName: match[1], index: Number(match[2]), field: match[3] };
+}
+
+/**
+ * antd `Form.List` name path of a field (`items[2].project` →
+ * `['items', 2, 'project']`). Plain fields are returned as-is.
+ */
+export function toFormListPath(fieldName: string): string | Array<string | number> {
+  const row = parseRowFieldName(fieldName);
+  if (!row) return fieldName;
+  return [row.arrayName, row.index, ...row.field.split('.')];
+}
+
+/**
+ * react-hook-form `useFieldArray` name of a field
+ * (`items[2].project` → `items.2.project`). Plain fields are returned as-is.
+ */
+export function toFieldArrayName(fieldName: string): string {
+  const row = parseRowFieldName(fieldName);
+  if (!row) return fieldName;
+  return `${row.arrayName}.${row.index}.${row.field}`;
+}
+
+/**
+ * Apply a row operation to a form's list value (adapters without access to
+ * `Form.List` / `useFieldArray` operations).
+ */
+export function applyRowChange(rows: unknown, change: RowChange): unknown[] {
+  const list = Array.isArray(rows) ? [...rows] : [];
+
+  if (change.type === 'add') {
+    list.splice(change.index, 0, {});
+  } else if (change.type === 'remove') {
+    list.splice(change.index, 1);
+  } else if (change.toIndex !== undefined) {
+    list.splice(change.toIndex, 0, ...list.splice(change.index, 1));
+  }
+
+  return list;
+}
+
+// ============================================================================
+// CONFIG VALIDATION
+// ============================================================================
+
+/**
+ * Thrown when field configs describe an invalid dependency graph.
+ */
+export class XSelectConfigError extends Error {
+  readonly issues: FieldConfigIssue[];
+
+  constructor(issues: FieldConfigIssue[]) {
+    super(
+      `[XSelect] Invalid field configs:\n${issues.map((i) => `- ${i.message}`).join('\n')}`,
+    );
+    this.name = 'XSelectConfigError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate the dependsOn graph of field configs.
+ * Returns an empty array when configs are valid.
+ *
+ * @example
+ * ```ts
+ * validateFieldConfigs([
+ *   { name: 'a', dependsOn: 'b' },
+ *   { name: 'b', dependsOn: 'a' },
+ * ]);
+ * // [{ code: 'CYCLE', fields: ['a', 'b'], path: ['a', 'b', 'a'], message: '...' }]
+ * ```
+ */
+export function validateFieldConfigs(configs: ReadonlyArray<FieldConfig>): FieldConfigIssue[] {
+  const issues: FieldConfigIssue[] = [];
+  const parentsOf = new Map<string, string[]>();
+
+  // Duplicates, self-references, missing parents
+  for (const config of configs) {
+    if (parentsOf.has(config.name)) {
+      issues.push({
+        code: 'DUPLICATE_FIELD',
+        fields: [config.name],
+        message: `Field "${config.name}" is declared more than once`,
+      });
+      continue;
+    }
+    parentsOf.set(config.name, normalizeDependsOn(config.dependsOn));
+  }
+
+  for (const [name, parents] of parentsOf) {
+    const arrayName = getFieldArrayName(name);
+
+    for (const parent of parents) {
+      const parentArrayName = getFieldArrayName(parent);
+      if (parentArrayName && parentArrayName !== arrayName) {
+        issues.push({
+          code: 'INVALID_ROW_DEPENDENCY',
+          fields: [name, parent],
+          message: `Field "${name}" cannot depend on row field "${parent}"`,
+        });
+        continue;
+      }
+
+      if (parent === name) {
+        issues.push({
+          code: 'SELF_REFERENCE',
+          fields: [name],
+          message: `Field "${name}" depends on itself`,
+        });
+      } else if (!parentsOf.has(parent)) {
+        issues.push({
+          code: 'MISSING_PARENT',
+          fields: [name, parent],
+          message: `Field "${name}" depends on unknown field "${parent}"`,
+        });
+      }
+    }
+  }
+
+  // Cycles (DFS over parent edges, self-references already reported)
+  const VISITING = 1;
+  const DONE = 2;
+  const state = new Map<string, number>();
+  const stack: string[] = [];
+  const reportedCycles = new Set<string>();
+
+  const visit = (name: string): void => {
+    state.set(name, VISITING);
+    stack.push(name);
+
+    for (const parent of parentsOf.get(name) ?? []) {
+      if (parent === name || !parentsOf.has(parent)) continue;
+
+      const parentState = state.get(parent);
+      if (parentState === VISITING) {
+        // Stack holds child → parent order, reverse to read as dependency flow
+        const cycle = stack.slice(stack.indexOf(parent)).reverse();
+        const key = [...cycle].sort().join('|');
+        if (!reportedCycles.has(key)) {
+          reportedCycles.add(key);
+          const path = [...cycle, cycle[0]];
+          issues.push({
+            code: 'CYCLE',
+            fields: cycle,
+            path,
+            message: `Circular dependency: ${path.join(' → ')}`,
+          });
+        }
+      } else if (parentState !== DONE) {
+        visit(parent);
+      }
+    }
+
+    stack.pop();
+    state.set(name, DONE);
+  };
+
+  for (const name of parentsOf.keys()) {
+    if (!state.has(name)) visit(name);
+  }
+
+  return issues;
+}
+
 // ============================================================================
 // RELATIONSHIP MAPPING
 // ============================================================================
 
 /**
- * Internal implementation of buildRelationshipMap.
+ * Build the relationship map without validating configs.
+ * Parents without a config are skipped (children keep them in `parent`).
  */
-function buildRelationshipMapInternal(configs: FieldConfig[]): RelationshipMap {
+export function mapFieldRelationships(
+  configs: ReadonlyArray<FieldConfig>,
+): RelationshipMap {
   const relationshipMap = new Map<string, FieldRelationship>();
   const childrenSets = new Map<string, Set<string>>();
 
@@ -135,12 +345,67 @@ function buildRelationshipMapInternal(configs: FieldConfig[]): RelationshipMap {
   return relationshipMap;
 }
 
+/**
+ * Internal implementation of buildRelationshipMap.
+ */
+function buildRelationshipMapInternal(configs: FieldConfig[]): RelationshipMap {
+  const issues = validateFieldConfigs(configs);
+  if (issues.length > 0) {
+    throw new XSelectConfigError(issues);
+  }
+
+  return mapFieldRelationships(configs);
+}
+
 /**
  * Build parent-child relationship map from field configs.
  * Memoized - same config array returns cached result.
+ *
+ * @throws {XSelectConfigError} when configs fail `validateFieldConfigs`
  */
 export const buildRelationshipMap = memoizeWeak(buildRelationshipMapInternal);
 
+/**
+ * Sort field names so every parent comes before its children
+ * (topological order). Assumes configs passed `validateFieldConfigs`.
+ *
+ * @example
+ * ```ts
+ * sortFieldsByDependency([
+ *   { name: 'city', dependsOn: 'province' },
+ *   { name: 'province', dependsOn: 'country' },
+ *   { name: 'country' },
+ * ]);
+ * // ['country', 'province', 'city']
+ * ```
+ */
+export function sortFieldsByDependency(configs: ReadonlyArray<FieldConfig>): string[] {
+  const parentsOf = new Map<string, string[]>();
+  for (const config of configs) {
+    parentsOf.set(config.name, normalizeDependsOn(config.dependsOn));
+  }
+
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (name: string): void => {
+    if (visited.has(name)) return;
+    visited.add(name);
+
+    for (const parent of parentsOf.get(name) ?? []) {
+      if (parentsOf.has(parent)) visit(parent);
+    }
+
+    ordered.push(name);
+  };
+
+  for (const config of configs) {
+    visit(config.name);
+  }
+
+  return ordered;
+}
+
 // ============================================================================
 // DESCENDANTS TRAVERSAL
 // ============================================================================
@@ -715,4 +980,51 @@ export function isEmpty(value: unknown): boolean {
  */
 export function clearCaches(): void {
   // WeakMaps are automatically garbage collected
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check built-in rules (required, min, max) for a field value.
+ * Custom validators are run by the store.
+ *
+ * @example
+ * ```ts
+ * validateFieldRules({ name: 'tags', mode: 'multiple', validation: { min: 2 } }, ['a']);
+ * // ['Select at least 2 tags']
+ * ```
+ */
+export function validateFieldRules(config: FieldConfig, value: unknown): string[] {
+  const rules = config.validation;
+  if (!rules) return [];
+
+  const label = config.label ?? config.name;
+
+  if (isEmpty(value)) {
+    if (!rules.required) return [];
+    return [typeof rules.required === 'string' ? rules.required : `${label} is required`];
+  }
+
+  const errors: string[] = [];
+
+  if (Array.isArray(value)) {
+    if (rules.min !== undefined && value.length < rules.min) {
+      errors.push(rules.messages?.min ?? `Select at least ${rules.min} ${label}`);
+    }
+    if (rules.max !== undefined && value.length > rules.max) {
+      errors.push(rules.messages?.max ?? `Select at most ${rules.max} ${label}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Normalize a custom validator result to an error list.
+ */
+export function normalizeValidationResult(result: string | string[] | undefined | void): string[] {
+  if (!result) return [];
+  return (Array.isArray(result) ? result : [result]).filter(Boolean);
+}
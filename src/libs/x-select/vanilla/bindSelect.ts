@@ -0,0 +1,132 @@
+/**
+ * XSelect - Vanilla `<select>` Binding
+ *
+ * Connects an XSelectStore field to a plain `<select>` element (no React):
+ * - Renders the field's (parent-filtered) options
+ * - Reflects value, disabled (parent empty / `disabledWhen` / read-only
+ *   computed), hidden (`visibleWhen`), loading (`aria-busy`) and errors
+ *   (`aria-invalid`)
+ * - Writes user changes back with cascade
+ */
+
+import type { XSelectStore } from '../store';
+import type { XSelectOption } from '../types';
+import { isEmpty, normalizeToArray } from '../utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BindSelectOptions {
+  /** Label of the empty option for single selects (default: ''), false to omit */
+  placeholder?: string | false;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isParentEmpty(store: XSelectStore, fieldName: string): boolean {
+  if (!store.getConfig(fieldName)?.dependsOn) return false;
+
+  const { parentValue } = store.getFieldSnapshot(fieldName);
+
+  // Multiple parents
+  if (
+    typeof parentValue === 'object' &&
+    parentValue !== null &&
+    !Array.isArray(parentValue)
+  ) {
+    return Object.values(parentValue as Record<string, unknown>).some(isEmpty);
+  }
+
+  return isEmpty(parentValue);
+}
+
+// ============================================================================
+// BINDING
+// ============================================================================
+
+/**
+ * Bind a `<select>` to a store field. Returns an unbind function.
+ * Option values are rendered as strings and mapped back to the original
+ * option values on change.
+ *
+ * @example
+ * ```ts
+ * const store = new XSelectStore(configs);
+ * const unbindCountry = bindSelect(store, countrySelect, 'country');
+ * const unbindCity = bindSelect(store, citySelect, 'city', { placeholder: 'City' });
+ * ```
+ */
+export function bindSelect(
+  store: XSelectStore,
+  select: HTMLSelectElement,
+  fieldName: string,
+  options: BindSelectOptions = {},
+): () => void {
+  const { placeholder = '' } = options;
+  const doc = select.ownerDocument;
+  let renderedOptions: XSelectOption[] | null = null;
+
+  const render = () => {
+    const snapshot = store.getFieldSnapshot(fieldName);
+    const config = store.getConfig(fieldName);
+    const fieldOptions = store.getOptions(fieldName);
+
+    // Options (getOptions returns the same array while unchanged)
+    if (fieldOptions !== renderedOptions) {
+      renderedOptions = fieldOptions;
+
+      const nodes = fieldOptions.map((option) => {
+        const node = doc.createElement('option');
+        node.value = String(option.value);
+        node.textContent = option.label;
+        node.disabled = !!option.disabled;
+        return node;
+      });
+
+      if (!select.multiple && placeholder !== false) {
+        const empty = doc.createElement('option');
+        empty.value = '';
+        empty.textContent = placeholder;
+        nodes.unshift(empty);
+      }
+
+      select.replaceChildren(...nodes);
+    }
+
+    const selected = new Set(normalizeToArray(snapshot.value).map(String));
+    for (const option of Array.from(select.options)) {
+      option.selected = selected.has(option.value);
+    }
+
+    const isReadOnly = !!config?.compute && config.computeMode !== 'overridable';
+    select.disabled =
+      isParentEmpty(store, fieldName) || snapshot.isDisabledByRule || isReadOnly;
+    select.hidden = snapshot.isHidden;
+    select.setAttribute('aria-busy', String(snapshot.isLoading));
+    select.setAttribute('aria-invalid', String(snapshot.errors.length > 0));
+  };
+
+  const handleChange = () => {
+    const lookup = new Map(
+      store.getOptions(fieldName).map((option) => [String(option.value), option.value]),
+    );
+    const picked = Array.from(select.selectedOptions)
+      .map((option) => option.value)
+      .filter((value) => value !== '')
+      .map((value) => lookup.get(value) ?? value);
+
+    store.setValue(fieldName, select.multiple ? picked : picked[0]);
+  };
+
+  render();
+  const unsubscribe = store.subscribe(fieldName, render);
+  select.addEventListener('change', handleChange);
+
+  return () => {
+    unsubscribe();
+    select.removeEventListener('change', handleChange);
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * XSelect - Custom Elements
+ *
+ * `<x-select-form>` owns one XSelectStore; every `<x-select-field>` inside
+ * registers its field on connect and unregisters on disconnect.
+ * Store events are re-dispatched on the form element (`x-select:<event>`).
+ *
+ * @example
+ * ```html
+ * <x-select-form id="filters">
+ *   <x-select-field name="country">
+ *     <option value="VN">Vietnam</option>
+ *     <option value="US">United States</option>
+ *   </x-select-field>
+ *   <x-select-field name="city" dependson="country" placeholder="Select city">
+ *     <option value="HN" data-parent="VN">Hanoi</option>
+ *     <option value="NY" data-parent="US">New York</option>
+ *   </x-select-field>
+ * </x-select-form>
+ *
+ * <script type="module">
+ *   defineXSelectElements();
+ *   filters.addEventListener('x-select:value:change', (e) => console.log(e.detail));
+ * </script>
+ * ```
+ */
+
+import { XSelectStore } from '../store';
+import type {
+  AsyncOptionsLoader,
+  FieldConfig,
+  FieldValues,
+  XSelectOption,
+} from '../types';
+import { bindSelect } from './bindSelect';
+import { forwardStoreEvents } from './events';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface XSelectFormElement extends HTMLElement {
+  /** Shared store (created on first access) */
+  readonly store: XSelectStore;
+
+  /** Initial values - set before the element is connected */
+  initialValues: FieldValues;
+
+  /** Current values of all fields */
+  readonly values: FieldValues;
+}
+
+export interface XSelectFieldElement extends HTMLElement {
+  /** Options (overrides `<option>` children) - set before connect */
+  options?: XSelectOption[] | AsyncOptionsLoader;
+
+  /** Extra field config (validation, cascade policy, ...) - set before connect */
+  config?: Partial<FieldConfig>;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'x-select-form': XSelectFormElement;
+    'x-select-field': XSelectFieldElement;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read `<option value data-parent>` children as static options.
+ */
+function readOptionElements(host: HTMLElement): XSelectOption[] {
+  return Array.from(host.querySelectorAll(':scope > option')).map((node) => {
+    const option = node as HTMLOptionElement;
+    return {
+      value: option.value,
+      label: option.textContent ?? option.value,
+      disabled: option.disabled || undefined,
+      parentValue: option.dataset.parent,
+    };
+  });
+}
+
+function parseDependsOn(attribute: string | null): string | string[] | undefined {
+  const names = (attribute ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (names.length === 0) return undefined;
+  return names.length === 1 ? names[0] : names;
+}
+
+// ============================================================================
+// DEFINE
+// ============================================================================
+
+/**
+ * Register `<x-select-form>` and `<x-select-field>` (no-op when already
+ * defined). Call once in the browser - classes are created lazily so the
+ * module can be imported during SSR.
+ */
+export function defineXSelectElements(
+  registry: CustomElementRegistry = customElements,
+): void {
+  if (!registry.get('x-select-form')) {
+    registry.define(
+      'x-select-form',
+      class extends HTMLElement implements XSelectFormElement {
+        initialValues: FieldValues = {};
+        private currentStore: XSelectStore | null = null;
+        private stopForwarding: (() => void) | null = null;
+
+        get store(): XSelectStore {
+          if (!this.currentStore) {
+            this.currentStore = new XSelectStore([], this.initialValues);
+            this.stopForwarding = forwardStoreEvents(this.currentStore, this);
+          }
+          return this.currentStore;
+        }
+
+        get values(): FieldValues {
+          return this.store.getValues();
+        }
+
+        disconnectedCallback() {
+          this.stopForwarding?.();
+          this.stopForwarding = null;
+          this.currentStore?.destroy();
+          this.currentStore = null;
+        }
+      },
+    );
+  }
+
+  if (!registry.get('x-select-field')) {
+    registry.define(
+      'x-select-field',
+      class extends HTMLElement implements XSelectFieldElement {
+        options?: XSelectOption[] | AsyncOptionsLoader;
+        config?: Partial<FieldConfig>;
+        private cleanup: (() => void) | null = null;
+
+        connectedCallback() {
+          const form = this.closest('x-select-form');
+          const name = this.getAttribute('name');
+          if (!form || !name) {
+            console.warn(
+              '[XSelect] <x-select-field> needs a name and an <x-select-form> parent',
+            );
+            return;
+          }
+
+          const markupOptions = readOptionElements(this);
+          this.querySelectorAll(':scope > option').forEach((node) => node.remove());
+
+          const select = this.querySelector('select') ?? document.createElement('select');
+          select.multiple = this.hasAttribute('multiple');
+          if (!select.isConnected) this.append(select);
+
+          // Keep the store - the form drops it when disconnected first
+          const { store } = form;
+          const config = this.config ?? {};
+          store.registerField({
+            ...config,
+            name,
+            label: this.getAttribute('label') ?? config.label,
+            dependsOn: parseDependsOn(this.getAttribute('dependson')) ?? config.dependsOn,
+            mode: select.multiple ? 'multiple' : config.mode,
+            options: this.options ?? (markupOptions.length > 0 ? markupOptions : config.options),
+          });
+
+          const unbind = bindSelect(store, select, name, {
+            placeholder: this.getAttribute('placeholder') ?? '',
+          });
+
+          this.cleanup = () => {
+            unbind();
+            store.unregisterField(name);
+          };
+        }
+
+        disconnectedCallback() {
+          this.cleanup?.();
+          this.cleanup = null;
+        }
+      },
+    );
+  }
+}
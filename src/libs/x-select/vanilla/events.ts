@@ -0,0 +1,66 @@
+/**
+ * XSelect - Store Events as DOM Events
+ *
+ * Re-dispatches typed store events as bubbling `CustomEvent`s named
+ * `x-select:<event>` (e.g. `x-select:value:change`), with the store
+ * payload as `detail`.
+ */
+
+import type { XSelectStore } from '../store';
+import type { StoreEventPayloadMap, StoreEventType } from '../types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORE_EVENT_TYPES: readonly StoreEventType[] = [
+  'value:change',
+  'options:change',
+  'loading:start',
+  'loading:end',
+  'cascade:delete',
+  'sync:controlled',
+  'values:reset',
+  'rows:change',
+];
+
+/** DOM event name prefix */
+export const DOM_EVENT_PREFIX = 'x-select:';
+
+// ============================================================================
+// FORWARDING
+// ============================================================================
+
+/**
+ * DOM event dispatched for a store event.
+ */
+export type XSelectDomEvent<TEvent extends StoreEventType = StoreEventType> = CustomEvent<
+  StoreEventPayloadMap[TEvent]
+>;
+
+/**
+ * Forward all store events to a DOM target. Returns a stop function.
+ *
+ * @example
+ * ```ts
+ * forwardStoreEvents(store, formElement);
+ *
+ * formElement.addEventListener('x-select:cascade:delete', (event) => {
+ *   const { affectedFields } = (event as XSelectDomEvent<'cascade:delete'>).detail;
+ *   console.log('Cleared', affectedFields);
+ * });
+ * ```
+ */
+export function forwardStoreEvents(store: XSelectStore, target: EventTarget): () => void {
+  const unsubscribes = STORE_EVENT_TYPES.map((event) =>
+    store.on(event, (detail) => {
+      target.dispatchEvent(
+        new CustomEvent(`${DOM_EVENT_PREFIX}${event}`, { detail, bubbles: true }),
+      );
+    }),
+  );
+
+  return () => {
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+  };
+}
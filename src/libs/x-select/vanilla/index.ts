@@ -0,0 +1,12 @@
+/**
+ * XSelect - Vanilla (non-React) Exports
+ */
+
+export { bindSelect } from './bindSelect';
+export type { BindSelectOptions } from './bindSelect';
+
+export { forwardStoreEvents, DOM_EVENT_PREFIX } from './events';
+export type { XSelectDomEvent } from './events';
+
+export { defineXSelectElements } from './elements';
+export type { XSelectFormElement, XSelectFieldElement } from './elements';
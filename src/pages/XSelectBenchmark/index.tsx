@@ -0,0 +1,13 @@
+import { XSelectBenchmark } from '@/libs/x-select/examples';
+import { PageContainer } from '@ant-design/pro-components';
+import React from 'react';
+
+const XSelectBenchmarkPage: React.FC = () => {
+  return (
+    <PageContainer>
+      <XSelectBenchmark />
+    </PageContainer>
+  );
+};
+
+export default XSelectBenchmarkPage;
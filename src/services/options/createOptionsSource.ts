@@ -0,0 +1,299 @@
+/**
+ * createOptionsSource - InfiniteConfig for the `/api/v2/<entity>/options` routes
+ *
+ * Features:
+ * - Cursor pagination (`paginationMode: 'cursor'`), page cursors remembered for
+ *   page-numbered callers (DefaultSelect)
+ * - Hydrate mode (`?ids=1,2,3`) as `fetchByIds`, batched across all sources
+ *   of an entity
+ * - Array parent values encoded as comma-separated lists
+ * - Requests cancelled through the React Query abort signal
+ * - Items typed from the Prisma models
+ *
+ * @example XSelect
+ * ```tsx
+ * const projectSource = createOptionsSource({
+ *   entity: 'projects',
+ *   parentField: 'memberId',
+ * });
+ *
+ * <XSelect.Dependent name="projectIds">
+ *   <XSelect.Infinite {...projectSource}>
+ *     <Select mode="multiple" />
+ *   </XSelect.Infinite>
+ * </XSelect.Dependent>
+ * ```
+ *
+ * @example DefaultSelect (fixed parent)
+ * ```tsx
+ * const config = useMemo(
+ *   () =>
+ *     createOptionsSource({
+ *       entity: 'tasks',
+ *       parentField: 'projectId',
+ *       parentValue: projectIds,
+ *     }),
+ *   [projectIds],
+ * );
+ * <SelectWrapper config={config} value={value} onChange={onChange}>...</SelectWrapper>
+ * ```
+ */
+
+import type {
+  BaseItem,
+  FetchRequest,
+  FetchResponse,
+  InfiniteConfig,
+} from '@/libs/x-select';
+
+import type {
+  OptionsEntity,
+  OptionsErrorResponse,
+  OptionsHydrateResponse,
+  OptionsItem,
+  OptionsListResponse,
+  OptionsParentField,
+} from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OptionsSourceConfig<E extends OptionsEntity> {
+  /** Entity segment of `/api/v2/<entity>/options` */
+  entity: E;
+
+  /**
+   * Dependent field filtered by the request's `parentValue`.
+   * - Field name: single dependency (`parentValue` may be an array)
+   * - Object: multiple dependencies, maps keys of an object `parentValue`
+   *   to fields (`{ userIds: 'authorId', taskIds: 'taskId' }`)
+   *
+   * Without a parent value, nothing is requested and the list is empty.
+   */
+  parentField?: OptionsParentField<E> | Record<string, OptionsParentField<E>>;
+
+  /** Fixed parent value, used when requests carry none (DefaultSelect) */
+  parentValue?: unknown;
+
+  /** Item key used as label (default: name / title / content) */
+  labelKey?: keyof OptionsItem<E> & string;
+
+  /** React Query key (default: derived from entity + parent) */
+  queryKey?: string;
+
+  /** Items per page - sent as `limit` (route max: 100) */
+  pageSize?: number;
+
+  /** Fetch strategy (default: 'lazy') */
+  fetchStrategy?: 'eager' | 'lazy';
+
+  /** Stale time for React Query (ms) */
+  staleTime?: number;
+}
+
+export type OptionsSource<E extends OptionsEntity> = InfiniteConfig<
+  OptionsItem<E> & BaseItem
+>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_LABEL_KEYS: Record<OptionsEntity, string> = {
+  users: 'name',
+  projects: 'name',
+  tasks: 'title',
+  filters: 'name',
+  comments: 'content',
+};
+
+/** Routes reading dependent fields as direct params (`?authorId=1,2`) */
+const DIRECT_PARENT_ENTITIES: ReadonlySet<OptionsEntity> = new Set([
+  'comments',
+]);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Encode a parent value as a comma-separated list - null when empty.
+ */
+function encodeParentValue(value: unknown): string | null {
+  const values = (Array.isArray(value) ? value : [value]).filter(
+    (v) => v !== null && v !== undefined && v !== '',
+  );
+  return values.length > 0 ? values.map(String).join(',') : null;
+}
+
+/**
+ * Query params for the parent filter - null when the parent is empty.
+ */
+function toParentParams<E extends OptionsEntity>(
+  entity: E,
+  parentField: OptionsSourceConfig<E>['parentField'],
+  parentValue: unknown,
+): Array<[string, string]> | null {
+  if (!parentField) return [];
+
+  if (typeof parentField === 'string') {
+    const encoded = encodeParentValue(parentValue);
+    if (encoded === null) return null;
+    return DIRECT_PARENT_ENTITIES.has(entity)
+      ? [[parentField, encoded]]
+      : [
+          ['parentField', parentField],
+          ['parentValue', encoded],
+        ];
+  }
+
+  // Multiple dependencies - at least one parent must have values
+  const parents = (parentValue ?? {}) as Record<string, unknown>;
+  const params: Array<[string, string]> = [];
+  for (const [key, field] of Object.entries(parentField)) {
+    const encoded = encodeParentValue(parents[key]);
+    if (encoded !== null) params.push([field, encoded]);
+  }
+  return params.length > 0 ? params : null;
+}
+
+function toQueryKey(
+  entity: OptionsEntity,
+  parentField: unknown,
+  parentValue: unknown,
+): string {
+  const parts = [`v2/${entity}/options`];
+  if (parentField !== undefined) parts.push(JSON.stringify(parentField));
+  if (parentValue !== undefined) parts.push(JSON.stringify(parentValue));
+  return parts.join(':');
+}
+
+/**
+ * GET an options route - throws with the route's message on failure.
+ */
+async function getJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+  const res = await fetch(url, { signal });
+  const body = (await res.json().catch(() => null)) as
+    | T
+    | OptionsErrorResponse
+    | null;
+
+  if (!res.ok || !body || (body as OptionsErrorResponse).success === false) {
+    const error = body as OptionsErrorResponse | null;
+    throw new Error(
+      error?.message ?? error?.error ?? `Request failed: ${res.status}`,
+    );
+  }
+  return body as T;
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create an infinite select config backed by `/api/v2/<entity>/options`.
+ */
+export function createOptionsSource<E extends OptionsEntity>(
+  config: OptionsSourceConfig<E>,
+): OptionsSource<E> {
+  type Item = OptionsItem<E> & BaseItem;
+
+  const {
+    entity,
+    parentField,
+    parentValue: fixedParentValue,
+    labelKey = DEFAULT_LABEL_KEYS[entity],
+    queryKey = toQueryKey(entity, parentField, fixedParentValue),
+    pageSize,
+    fetchStrategy,
+    staleTime,
+  } = config;
+
+  if (
+    parentField &&
+    typeof parentField !== 'string' &&
+    !DIRECT_PARENT_ENTITIES.has(entity)
+  ) {
+    throw new Error(
+      `[createOptionsSource] "${entity}" accepts a single parentField, not a field map`,
+    );
+  }
+
+  const url = `/api/v2/${entity}/options`;
+
+  // End cursor of each page, per search + parent (page-numbered callers)
+  const pageCursors = new Map<string, Map<number, string>>();
+
+  const fetchList = async (
+    request: FetchRequest,
+  ): Promise<FetchResponse<Item>> => {
+    const { current, pageSize: limit, search, signal } = request;
+    const parentValue = request.parentValue ?? fixedParentValue;
+
+    const parentParams = toParentParams(entity, parentField, parentValue);
+    if (!parentParams) return { data: [], total: 0, nextCursor: null };
+
+    const signature = JSON.stringify([search ?? '', parentParams]);
+    if (current === 1) pageCursors.delete(signature);
+    const cursors = pageCursors.get(signature) ?? new Map<number, string>();
+    pageCursors.set(signature, cursors);
+
+    let cursor = request.cursor;
+    if (cursor === undefined && current > 1) {
+      cursor = cursors.get(current - 1);
+      if (cursor === undefined) {
+        throw new Error(
+          `[createOptionsSource] Page ${current} requested before page ${current - 1}`,
+        );
+      }
+    }
+
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (cursor) params.set('cursor', cursor);
+    if (search) params.set('keyword', search);
+    for (const [key, value] of parentParams) params.set(key, value);
+
+    const { data, pageInfo } = await getJson<OptionsListResponse<Item>>(
+      `${url}?${params}`,
+      signal,
+    );
+
+    const nextCursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+    if (nextCursor) cursors.set(current, nextCursor);
+
+    return {
+      data,
+      total: pageInfo.total,
+      hasMore: Boolean(nextCursor),
+      nextCursor,
+    };
+  };
+
+  const fetchByIds = async (
+    ids: Array<string | number>,
+    _parentValue?: unknown,
+    signal?: AbortSignal,
+  ): Promise<Item[]> => {
+    if (ids.length === 0) return [];
+    const params = new URLSearchParams({ ids: ids.join(',') });
+    const { data } = await getJson<OptionsHydrateResponse<Item>>(
+      `${url}?${params}`,
+      signal,
+    );
+    return data;
+  };
+
+  return {
+    queryKey,
+    fetchList,
+    fetchByIds,
+    pageSize,
+    paginationMode: 'cursor',
+    hydrationKey: `v2/${entity}/options`,
+    fetchStrategy,
+    staleTime,
+    getItemLabel: (item) => String(item[labelKey] ?? item.id),
+  };
+}
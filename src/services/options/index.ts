@@ -0,0 +1,19 @@
+/**
+ * Options API - `/api/v2/<entity>/options` sources for XSelect / DefaultSelect
+ */
+
+export { createOptionsSource } from './createOptionsSource';
+export type { OptionsSource, OptionsSourceConfig } from './createOptionsSource';
+
+export type {
+  OptionsEntity,
+  OptionsEntityMap,
+  OptionsErrorResponse,
+  OptionsHydrateResponse,
+  OptionsItem,
+  OptionsListResponse,
+  OptionsPageInfo,
+  OptionsParentField,
+  OptionsParentFieldMap,
+  Serialized,
+} from './types';
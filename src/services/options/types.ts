@@ -0,0 +1,97 @@
+/**
+ * Options API - Types
+ *
+ * Response types of the `/api/v2/<entity>/options` routes, derived from the
+ * Prisma models so that a schema change surfaces in every select using them.
+ */
+
+import type {
+  Comment,
+  Project,
+  SavedFilter,
+  Task,
+  User,
+} from 'generated/prisma/client';
+
+// ============================================================================
+// ENTITIES
+// ============================================================================
+
+/**
+ * JSON shape of a Prisma row - `DateTime` columns arrive as ISO strings.
+ */
+export type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date
+    ? string
+    : T[K] extends Date | null
+      ? string | null
+      : T[K];
+};
+
+/**
+ * Row type returned by each options route (before serialization).
+ */
+export interface OptionsEntityMap {
+  users: User;
+  projects: Project;
+  tasks: Task;
+  filters: SavedFilter;
+  /** Included relations - see `api/v2/comments/options` */
+  comments: Comment & {
+    author: Pick<User, 'id' | 'name'>;
+    task: Pick<Task, 'id' | 'title'>;
+  };
+}
+
+/** Entity segment of `/api/v2/<entity>/options` */
+export type OptionsEntity = keyof OptionsEntityMap;
+
+/** Item received by selects for an entity */
+export type OptionsItem<E extends OptionsEntity> = Serialized<
+  OptionsEntityMap[E]
+>;
+
+/**
+ * Dependent fields accepted by each route (`parentField` / direct params).
+ */
+export interface OptionsParentFieldMap {
+  users: 'projectId' | 'taskId';
+  projects: 'ownerId' | 'memberId';
+  tasks: 'projectId' | 'assigneeId' | 'creatorId' | 'status' | 'priority';
+  filters: 'page' | 'isDefault';
+  comments: 'authorId' | 'taskId';
+}
+
+export type OptionsParentField<E extends OptionsEntity> =
+  OptionsParentFieldMap[E];
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+export interface OptionsPageInfo {
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+  total: number;
+}
+
+/** List mode (`cursor` / `limit` / `keyword` / parent filter) */
+export interface OptionsListResponse<T> {
+  data: T[];
+  pageInfo: OptionsPageInfo;
+  success: true;
+}
+
+/** Hydrate mode (`ids`) */
+export interface OptionsHydrateResponse<T> {
+  data: T[];
+  success: true;
+}
+
+export interface OptionsErrorResponse {
+  error: string;
+  message?: string;
+  success: false;
+}
@@ -0,0 +1,20 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Runtime exports generated by `max setup` (postinstall) - what the app build
+// resolves `umi` / `@umijs/max` to in the browser
+const umiExports = path.resolve(__dirname, 'src/.umi/exports.ts');
+
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: /^(umi|@umijs\/max)$/, replacement: umiExports },
+      { find: /^@@\//, replacement: `${path.resolve(__dirname, 'src/.umi')}/` },
+      { find: /^@\//, replacement: `${path.resolve(__dirname, 'src')}/` },
+    ],
+  },
+  test: {
+    environment: 'jsdom',
+    include: ['src/**/*.test.{ts,tsx}'],
+  },
+});